@@ -0,0 +1,108 @@
+// Form controls shared by the synth and effects panels.
+
+export class Iso<T, U> {
+    public to : (x: T) => U;
+    public from : (x: U) => T;
+    constructor(to: (x: T) => U, from: (x: U) => T) {
+        this.to = to;
+        this.from = from;
+    }
+
+    static linearScale(min: number, max: number): Iso<number, number> {
+        return new Iso((x: number) => min + x * (max - min), 
+                       (y: number) => (y - min) / (max - min));
+    }
+
+    static powerScale(power: number): Iso<number, number> {
+        return new Iso((x: number) => Math.pow(x, power), (y: number) => Math.pow(y, 1/power));
+    }
+
+    static positiveScale(): Iso<number, number> {
+        return new Iso((x: number) => 1 / (1 - x) - 1, (y: number) => 1 - 1 / (y + 1));
+    }
+
+    // Even steps of the fader multiply the value by the same amount.
+    static logScale(min: number, max: number): Iso<number, number> {
+        return new Iso((x: number) => min * Math.pow(max / min, x),
+                       (y: number) => Math.log(y / min) / Math.log(max / min));
+    }
+
+    compose<V>(i: Iso<U,V>): Iso<T, V> {
+        return new Iso((x: T) => i.to(this.to(x)), (y:V) => this.from(i.from(y)));
+    }
+}
+
+export function makeTable(elements: HTMLElement[][]) {
+    const tableEl = document.createElement('table');
+    for (const row of elements) {
+        const tr = document.createElement('tr');
+        tableEl.appendChild(tr);
+
+        for (const col of row) {
+            const td = document.createElement('td');
+            tr.appendChild(td);
+
+            td.appendChild(col);
+        }
+    }
+    return tableEl;
+}
+
+export function makeFader(label: string, value: number, scale: Iso<number, number>, onChange: (v: number) => void) {
+    const spanEl = document.createElement('span');
+    spanEl.setAttribute('class', 'fader');
+
+    const labelEl = document.createElement('label');
+    labelEl.innerText = label;
+
+    const inputEl = document.createElement('input');
+    inputEl.setAttribute('type', 'range');
+    inputEl.setAttribute('orient', 'vertical');
+    inputEl.setAttribute('min', '0');
+    inputEl.setAttribute('max', '1');
+    inputEl.setAttribute('step', 'any');
+    inputEl.value = String(scale.from(value));
+
+    const valueEl = document.createElement('span');
+    valueEl.innerText = value.toFixed(2);
+
+    inputEl.addEventListener('input', (e) => {
+        const scaledVal = scale.to(Number(inputEl.value));
+        valueEl.innerText = scaledVal.toFixed(2);
+        onChange(scaledVal);
+    });
+
+    spanEl.appendChild(makeTable([[labelEl], [inputEl], [valueEl]]));
+    return spanEl;
+}
+
+export function makeButton(label: string, onClick: () => void) {
+    const button = document.createElement('input');
+    button.setAttribute('type', 'button');
+    button.setAttribute('value', label);
+    button.addEventListener('click', onClick);
+    return button;
+}
+
+export function makeNumberInput(label: string, value: number, min: number, max: number, onChange: (v: number) => void) {
+    const spanEl = document.createElement('span');
+    spanEl.innerText = label + ': ';
+
+    const inputEl = document.createElement('input');
+    inputEl.setAttribute('type', 'number');
+    inputEl.setAttribute('min', String(min));
+    inputEl.setAttribute('max', String(max));
+    inputEl.setAttribute('step', '1');
+    inputEl.style.width = '4em';
+    inputEl.value = String(value);
+    inputEl.addEventListener('change', () => {
+        const v = Math.round(Number(inputEl.value));
+        if (v >= min && v <= max) {
+            value = v;
+            onChange(v);
+        }
+        inputEl.value = String(value);
+    });
+    spanEl.appendChild(inputEl);
+    return spanEl;
+}
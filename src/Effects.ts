@@ -0,0 +1,162 @@
+import * as Tone from "tone";
+import * as FileType from "./FileType";
+import { Iso, makeFader } from "./Controls";
+
+const DELAY_SILENCE = 0.001;  // amplitude at which the delay's repeats are taken to have died away
+
+function copyEffects(params: FileType.EffectsParams): FileType.EffectsParams {
+    return {
+        eq: { ...params.eq },
+        filter: { ...params.filter },
+        delay: { ...params.delay },
+        reverb: { ...params.reverb },
+        compressor: { ...params.compressor },
+        limiter: { ...params.limiter },
+        volume: params.volume,
+    };
+}
+
+// How long the effects keep sounding after the last note has ended, in seconds.
+export function effectsTail(params: FileType.EffectsParams): number {
+    let tail = 0;
+    if (params.delay.wet > 0) {
+        const repeats = params.delay.feedback > 0 ? Math.log(DELAY_SILENCE) / Math.log(params.delay.feedback) : 1;
+        tail += params.delay.time * Math.ceil(repeats);
+    }
+    if (params.reverb.wet > 0) {
+        tail += params.reverb.decay;
+    }
+    return tail;
+}
+
+// The web synth's master bus, from input through EQ, filters, delay, reverb, compressor,
+// limiter and volume to the destination of the context it was made in.
+export class EffectsChain {
+    readonly input: Tone.Gain;
+    private eq: Tone.EQ3;
+    private highpass: Tone.Filter;
+    private lowpass: Tone.Filter;
+    private delay: Tone.FeedbackDelay;
+    private reverb: Tone.Reverb;
+    private compressor: Tone.Compressor;
+    private limiter: Tone.Limiter;
+    private volume: Tone.Volume;
+
+    private params: FileType.EffectsParams;
+    private paramsDiv: HTMLElement;
+
+    constructor(params: FileType.EffectsParams = FileType.DEFAULT_EFFECTS) {
+        this.params = copyEffects(params);
+        this.paramsDiv = null;
+
+        this.input = new Tone.Gain(1);
+        this.eq = new Tone.EQ3();
+        this.highpass = new Tone.Filter(params.filter.highpass, 'highpass');
+        this.lowpass = new Tone.Filter(params.filter.lowpass, 'lowpass');
+        this.delay = new Tone.FeedbackDelay();
+        this.reverb = new Tone.Reverb(params.reverb.decay);
+        this.compressor = new Tone.Compressor();
+        this.limiter = new Tone.Limiter(params.limiter.threshold);
+        this.volume = new Tone.Volume(params.volume);
+
+        this.input.chain(this.eq, this.highpass, this.lowpass, this.delay, this.reverb,
+                         this.compressor, this.limiter, this.volume, this.context().destination);
+        this.apply();
+    }
+
+    private context(): Tone.BaseContext {
+        return this.input.context;
+    }
+
+    // Resolves once the reverb's impulse response has been generated. Until then the reverb is silent.
+    ready(): Promise<void> {
+        return this.reverb.ready;
+    }
+
+    getParams(): FileType.EffectsParams {
+        return copyEffects(this.params);
+    }
+
+    setParams(params: FileType.EffectsParams): void {
+        this.params = copyEffects(params);
+        this.apply();
+
+        if (this.paramsDiv) {
+            this.fillParamsHTML(this.paramsDiv);
+        }
+    }
+
+    dispose(): void {
+        for (const node of [this.input, this.eq, this.highpass, this.lowpass, this.delay, this.reverb,
+                            this.compressor, this.limiter, this.volume]) {
+            node.dispose();
+        }
+    }
+
+    private apply(): void {
+        const params = this.params;
+        this.eq.low.value = params.eq.low;
+        this.eq.mid.value = params.eq.mid;
+        this.eq.high.value = params.eq.high;
+        this.highpass.frequency.value = params.filter.highpass;
+        this.lowpass.frequency.value = params.filter.lowpass;
+        this.delay.delayTime.value = params.delay.time;
+        this.delay.feedback.value = params.delay.feedback;
+        this.delay.wet.value = params.delay.wet;
+        if (this.reverb.decay !== params.reverb.decay) {
+            // Regenerates the impulse response.
+            this.reverb.decay = params.reverb.decay;
+        }
+        this.reverb.wet.value = params.reverb.wet;
+        this.compressor.threshold.value = params.compressor.threshold;
+        this.compressor.ratio.value = params.compressor.ratio;
+        this.limiter.threshold.value = params.limiter.threshold;
+        this.volume.volume.value = params.volume;
+    }
+
+    getParamsHTML() {
+        this.paramsDiv = document.createElement('div');
+        this.fillParamsHTML(this.paramsDiv);
+        return this.paramsDiv;
+    }
+
+    // One row of faders per stage, in signal order.
+    private fillParamsHTML(div: HTMLElement) {
+        div.innerHTML = '';
+
+        const gain = Iso.linearScale(-24, 12);
+        const wet = Iso.linearScale(0, 1);
+        const set = (change: (params: FileType.EffectsParams, v: number) => void) => (v: number) => {
+            change(this.params, v);
+            this.apply();
+        };
+        const row = (label: string, ...faders: HTMLElement[]) => {
+            const rowDiv = document.createElement('div');
+            rowDiv.appendChild(document.createTextNode(label + ': '));
+            for (const fader of faders) {
+                rowDiv.appendChild(fader);
+            }
+            div.appendChild(rowDiv);
+        };
+
+        row('EQ',
+            makeFader('Low', this.params.eq.low, gain, set((p, v) => { p.eq.low = v })),
+            makeFader('Mid', this.params.eq.mid, gain, set((p, v) => { p.eq.mid = v })),
+            makeFader('High', this.params.eq.high, gain, set((p, v) => { p.eq.high = v })));
+        row('Filter',
+            makeFader('HP', this.params.filter.highpass, Iso.logScale(20, 20000), set((p, v) => { p.filter.highpass = v })),
+            makeFader('LP', this.params.filter.lowpass, Iso.logScale(20, 20000), set((p, v) => { p.filter.lowpass = v })));
+        row('Delay',
+            makeFader('Time', this.params.delay.time, Iso.logScale(0.01, 2), set((p, v) => { p.delay.time = v })),
+            makeFader('Fb', this.params.delay.feedback, Iso.linearScale(0, 0.95), set((p, v) => { p.delay.feedback = v })),
+            makeFader('Wet', this.params.delay.wet, wet, set((p, v) => { p.delay.wet = v })));
+        row('Reverb',
+            makeFader('Decay', this.params.reverb.decay, Iso.logScale(0.1, 20), set((p, v) => { p.reverb.decay = v })),
+            makeFader('Wet', this.params.reverb.wet, wet, set((p, v) => { p.reverb.wet = v })));
+        row('Dynamics',
+            makeFader('Comp', this.params.compressor.threshold, Iso.linearScale(-60, 0), set((p, v) => { p.compressor.threshold = v })),
+            makeFader('Ratio', this.params.compressor.ratio, Iso.powerScale(2).compose(Iso.linearScale(1, 20)), set((p, v) => { p.compressor.ratio = v })),
+            makeFader('Limit', this.params.limiter.threshold, Iso.linearScale(-24, 0), set((p, v) => { p.limiter.threshold = v })),
+            makeFader('Vol', this.params.volume, Iso.linearScale(-60, 12), set((p, v) => { p.volume = v })));
+    }
+}
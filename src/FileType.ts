@@ -1,4 +1,50 @@
-import {ExactNumberType} from "exactnumber";
+import {ExactNumberType, ExactNumber as N} from "exactnumber";
+import * as Utils from "./Utils";
+
+export const CURRENT_VERSION = 15;
+
+export const PRESETS_VERSION = 1;
+
+export const WAVE_TYPES = ["sine", "square", "triangle", "sawtooth"];
+
+// The web synth's voices: the basic waves, a sum of harmonic partials, or two-operator FM.
+export const SYNTH_TYPES = [...WAVE_TYPES, "additive", "fm"];
+
+export const MAX_PARTIALS = 64;
+
+export const DEFAULT_PARTIALS = [1, 1/2, 1/3, 1/4, 1/5, 1/6, 1/7, 1/8];
+
+export const TEMPO_CURVES = ["step", "linear", "exponential"];
+
+export const PITCH_AXES = ["log", "linear", "ratio"];
+
+export const MAX_EDO = 1200;
+
+export const MAX_PRIME_LIMIT = 31;
+
+export const MAX_TENNEY_HEIGHT = 16;
+
+export const MAX_RATIO_TERM = 64;
+
+// Lower than MAX_TENNEY_HEIGHT, as without a prime limit there are far more ratios to a height.
+export const MAX_RATIO_HEIGHT = 12;
+
+export const MAX_SUBDIVISION = 64;
+
+export const METER_UNITS = [1, 2, 4, 8, 16, 32, 64];
+
+export const MAX_METER_BEATS = 32;
+
+// Effects that leave the sound as it was, apart from the limiter catching peaks.
+export const DEFAULT_EFFECTS: EffectsParams = {
+    eq: { low: 0, mid: 0, high: 0 },
+    filter: { highpass: 20, lowpass: 20000 },
+    delay: { time: 0.25, feedback: 0.3, wet: 0 },
+    reverb: { decay: 2, wet: 0 },
+    compressor: { threshold: -24, ratio: 1 },
+    limiter: { threshold: -1 },
+    volume: 0,
+};
 
 type Version0 = {
     notes: {
@@ -9,22 +55,1145 @@ type Version0 = {
     }[],
 }
 
-export type Note = {
+type Version1Note = {
     startTime: number,
     endTime: number,
     pitch: string,
     velocity: number,
 }
 
-export type Score = {
-     notes: Note[],
+type Version2Note = {
+    startTime: string,
+    endTime: string,
+    pitch: string,
+    velocity: number,
 }
 
-export function loadScore(doc: object): Score {
-    if (! ('version' in doc)) { // version 0
-        return (doc as Version0);
+type Version4Note = {
+    startTime: string,
+    endTime: string,
+    pitch: string,
+    velocity: number,
+    glide: GlidePoint[],
+}
+
+type Version5Note = {
+    startTime: string,
+    endTime: string,
+    pitch: string,
+    velocity: number,
+    glide: GlidePoint[],
+    pressure: ExpressionPoint[],
+    timbre: ExpressionPoint[],
+}
+
+// Times and pitches are exact numbers, written with ExactNumberType.toString.
+// track is the index of the note's track in the score's tracks.
+export type Note = {
+    startTime: string,
+    endTime: string,
+    pitch: string,
+    velocity: number,
+    glide: GlidePoint[],
+    pressure: ExpressionPoint[],
+    timbre: ExpressionPoint[],
+    track: number,
+}
+
+type Version9Track = {
+    name: string,
+    colour: string,
+    volume: number,
+    mute: boolean,
+    solo: boolean,
+    visible: boolean,
+}
+
+// colour is a CSS hex colour, and volume [0,1] scales the velocities of the track's notes.
+// Hidden tracks are neither drawn nor edited, but still play. synth and preset are the track's own web synth,
+// kept whichever output the track plays on.
+export type Track = {
+    name: string,
+    colour: string,
+    volume: number,
+    mute: boolean,
+    solo: boolean,
+    visible: boolean,
+    synth: SynthParams,
+    preset: string | null,
+}
+
+export const DEFAULT_TRACK_COLOUR = "#00ccff";
+
+// position is the fraction (0,1] of the way along the note at which it reaches pitch.
+export type GlidePoint = {
+    position: string,
+    pitch: string,
+}
+
+// value [0,1] is reached at the fraction [0,1] of the way along the note given by position.
+export type ExpressionPoint = {
+    position: string,
+    value: number,
+}
+
+type Version2Grid = {
+    xsnap: string,
+    ysnap: string,
+}
+
+// The pitches notes snap to, relative to the fundamental: its harmonics and subharmonics, equal
+// divisions of the octave, the degrees of a Scala scale repeating at its last, or every ratio with
+// no prime above limit and a Tenney height log2(n*d) of at most height, every ratio n/d with n and d at
+// most numerator and denominator, or every ratio with a Tenney height of at most height.
+export type PitchGridSpec =
+    { type: "harmonic" }
+    | { type: "edo", divisions: number }
+    | { type: "scala", name: string, degrees: string[] }
+    | { type: "prime-limit", limit: number, height: number }
+    | { type: "ratio", numerator: number, denominator: number }
+    | { type: "tenney", height: number };
+
+// ysnap is the fundamental.
+type Version11Grid = {
+    xsnap: string,
+    ysnap: string,
+    pitch: PitchGridSpec,
+}
+
+// The fundamental from time until the next change.
+export type FundamentalChange = {
+    time: string,
+    fundamental: string,
+}
+
+// fundamentals are in order of time, the first at time 0.
+type Version12Grid = {
+    xsnap: string,
+    fundamentals: FundamentalChange[],
+    pitch: PitchGridSpec,
+}
+
+// subdivisions are the numbers of equal parts of xsnap shown and snapped to together, e.g. [3, 4, 5].
+export type Grid = {
+    xsnap: string,
+    subdivisions: number[],
+    fundamentals: FundamentalChange[],
+    pitch: PitchGridSpec,
+}
+
+type Version1Viewport = {
+    minX: number,
+    maxX: number,
+    minNote: number,
+    maxNote: number,
+}
+
+// The pitch range is given as fractional MIDI notes whatever the pitch axis.
+export type Viewport = {
+    minX: number,
+    maxX: number,
+    minNote: number,
+    maxNote: number,
+    pitchAxis: string,
+}
+
+// tempo is in score time units per second, and curve says how it moves to the next point.
+export type TempoPoint = {
+    time: string,
+    tempo: string,
+    curve: string,
+}
+
+// beats beats of 1/unit of a whole note to the bar, from time until the next change.
+export type MeterChange = {
+    time: string,
+    beats: number,
+    unit: number,
+}
+
+type Version1SynthParams = {
+    type: string,
+    attack: number,
+    decay: number,
+    sustain: number,
+    release: number,
+}
+
+// Two-operator FM with carrier and modulator at carrier:modulator, the note's frequency being the fundamental
+// of the spectrum. index is the depth of modulation.
+export type FMParams = {
+    carrier: number,
+    modulator: number,
+    index: number,
+}
+
+// partials are the amplitudes [0,1] of harmonics 1, 2, 3... for the additive voice.
+export type SynthParams = {
+    type: string,
+    attack: number,
+    decay: number,
+    sustain: number,
+    release: number,
+    partials: number[],
+    fm: FMParams,
+}
+
+// The web synth's master effects, in the order the sound goes through them. Gains, thresholds
+// and volume are in dB, filter cutoffs in Hz, times in seconds, and feedback and wet amounts in [0,1].
+export type EffectsParams = {
+    eq: { low: number, mid: number, high: number },
+    filter: { highpass: number, lowpass: number },
+    delay: { time: number, feedback: number, wet: number },
+    reverb: { decay: number, wet: number },
+    compressor: { threshold: number, ratio: number },
+    limiter: { threshold: number },
+    volume: number,
+}
+
+type Version1 = {
+    version: 1,
+    notes: Version1Note[],
+    tempo: number,
+    grid: { xsnap: number, ysnap: string },
+    viewport: Version1Viewport,
+    synth: Version1SynthParams,
+}
+
+type Version2 = {
+    version: 2,
+    notes: Version2Note[],
+    tempo: number,
+    grid: Version2Grid,
+    viewport: Version1Viewport,
+    synth: Version1SynthParams,
+}
+
+type Version3 = {
+    version: 3,
+    notes: Version2Note[],
+    tempoMap: TempoPoint[],
+    grid: Version2Grid,
+    viewport: Version1Viewport,
+    synth: Version1SynthParams,
+}
+
+type Version4 = {
+    version: 4,
+    notes: Version4Note[],
+    tempoMap: TempoPoint[],
+    grid: Version2Grid,
+    viewport: Version1Viewport,
+    synth: Version1SynthParams,
+}
+
+type Version5 = {
+    version: 5,
+    notes: Version5Note[],
+    tempoMap: TempoPoint[],
+    grid: Version2Grid,
+    viewport: Version1Viewport,
+    synth: Version1SynthParams,
+}
+
+type Version6 = {
+    version: 6,
+    notes: Version5Note[],
+    tempoMap: TempoPoint[],
+    grid: Version2Grid,
+    viewport: Version1Viewport,
+    synth: SynthParams,
+}
+
+// preset names the synth preset the score was made with, if any. synth holds its parameters either way.
+type Version7 = {
+    version: 7,
+    notes: Version5Note[],
+    tempoMap: TempoPoint[],
+    grid: Version2Grid,
+    viewport: Version1Viewport,
+    synth: SynthParams,
+    preset: string | null,
+}
+
+type Version8 = {
+    version: 8,
+    notes: Version5Note[],
+    tempoMap: TempoPoint[],
+    grid: Version2Grid,
+    viewport: Version1Viewport,
+    synth: SynthParams,
+    preset: string | null,
+    effects: EffectsParams,
+}
+
+type Version9 = {
+    version: 9,
+    notes: Note[],
+    tracks: Version9Track[],
+    tempoMap: TempoPoint[],
+    grid: Version2Grid,
+    viewport: Version1Viewport,
+    synth: SynthParams,
+    preset: string | null,
+    effects: EffectsParams,
+}
+
+type Version10 = {
+    version: 10,
+    notes: Note[],
+    tracks: Version9Track[],
+    tempoMap: TempoPoint[],
+    grid: Version2Grid,
+    viewport: Viewport,
+    synth: SynthParams,
+    preset: string | null,
+    effects: EffectsParams,
+}
+
+type Version11 = {
+    version: 11,
+    notes: Note[],
+    tracks: Version9Track[],
+    tempoMap: TempoPoint[],
+    grid: Version11Grid,
+    viewport: Viewport,
+    synth: SynthParams,
+    preset: string | null,
+    effects: EffectsParams,
+}
+
+type Version12 = {
+    version: 12,
+    notes: Note[],
+    tracks: Version9Track[],
+    tempoMap: TempoPoint[],
+    grid: Version12Grid,
+    viewport: Viewport,
+    synth: SynthParams,
+    preset: string | null,
+    effects: EffectsParams,
+}
+
+type Version13 = {
+    version: 13,
+    notes: Note[],
+    tracks: Version9Track[],
+    tempoMap: TempoPoint[],
+    grid: Grid,
+    viewport: Viewport,
+    synth: SynthParams,
+    preset: string | null,
+    effects: EffectsParams,
+}
+
+type Version14 = {
+    version: 14,
+    notes: Note[],
+    tracks: Version9Track[],
+    tempoMap: TempoPoint[],
+    meter: MeterChange[],
+    grid: Grid,
+    viewport: Viewport,
+    synth: SynthParams,
+    preset: string | null,
+    effects: EffectsParams,
+}
+
+type Version15 = {
+    version: typeof CURRENT_VERSION,
+    notes: Note[],
+    tracks: Track[],
+    tempoMap: TempoPoint[],
+    meter: MeterChange[],
+    grid: Grid,
+    viewport: Viewport,
+    effects: EffectsParams,
+}
+
+export type Score = Version15;
+
+export type Preset = {
+    name: string,
+    synth: SynthParams,
+}
+
+// A file of synth presets, also the form they are kept in browser storage.
+export type Presets = {
+    version: 1,
+    presets: Preset[],
+}
+
+function fail(path: string, message: string): never {
+    throw Error("Load error: " + path + ": " + message);
+}
+
+function checkObject(x: any, path: string, fields: string[]): void {
+    if (typeof x !== 'object' || x === null || Array.isArray(x)) {
+        fail(path, "expected an object");
+    }
+    for (const field of fields) {
+        if (! (field in x)) {
+            fail(path, "missing field '" + field + "'");
+        }
+    }
+    for (const field of Object.keys(x)) {
+        if (! fields.includes(field)) {
+            fail(path, "unexpected field '" + field + "'");
+        }
+    }
+}
+
+function checkArray(x: any, path: string): void {
+    if (! Array.isArray(x)) {
+        fail(path, "expected an array");
+    }
+}
+
+function checkNumber(x: any, path: string): void {
+    if (typeof x !== 'number' || ! isFinite(x)) {
+        fail(path, "expected a number");
+    }
+}
+
+function checkBoolean(x: any, path: string): void {
+    if (typeof x !== 'boolean') {
+        fail(path, "expected true or false");
+    }
+}
+
+function checkPositive(x: any, path: string): void {
+    checkNumber(x, path);
+    if (x <= 0) {
+        fail(path, "expected a positive number");
+    }
+}
+
+function checkRange(x: any, path: string, min: number, max: number): void {
+    checkNumber(x, path);
+    if (x < min || x > max) {
+        fail(path, "expected a number between " + min + " and " + max);
+    }
+}
+
+function checkExact(x: any, path: string): ExactNumberType {
+    if (typeof x !== 'string') {
+        fail(path, "expected an exact number string");
+    }
+    try {
+        return N(x);
+    }
+    catch (e) {
+        fail(path, "cannot parse '" + x + "' as an exact number");
+    }
+}
+
+function checkRatio(x: any, path: string): void {
+    if (checkExact(x, path).lte(0)) {
+        fail(path, "expected a positive number");
+    }
+}
+
+function checkVersion1Note(x: any, path: string): void {
+    checkObject(x, path, ['startTime', 'endTime', 'pitch', 'velocity']);
+    checkNumber(x.startTime, path + ".startTime");
+    checkNumber(x.endTime, path + ".endTime");
+    if (x.endTime < x.startTime) {
+        fail(path + ".endTime", "note ends before it starts");
+    }
+    checkRatio(x.pitch, path + ".pitch");
+    checkRange(x.velocity, path + ".velocity", 0, 1);
+}
+
+function checkVersion2Note(x: any, path: string): void {
+    checkObject(x, path, ['startTime', 'endTime', 'pitch', 'velocity']);
+    checkNoteFields(x, path);
+}
+
+function checkNoteFields(x: any, path: string): void {
+    const startTime = checkExact(x.startTime, path + ".startTime");
+    const endTime = checkExact(x.endTime, path + ".endTime");
+    if (endTime.lt(startTime)) {
+        fail(path + ".endTime", "note ends before it starts");
+    }
+    checkRatio(x.pitch, path + ".pitch");
+    checkRange(x.velocity, path + ".velocity", 0, 1);
+}
+
+function checkGlide(glide: any, path: string): void {
+    checkArray(glide, path);
+    let lastPosition = N(0);
+    glide.forEach((point: any, i: number) => {
+        const pointPath = path + "[" + i + "]";
+        checkObject(point, pointPath, ['position', 'pitch']);
+        const position = checkExact(point.position, pointPath + ".position");
+        if (position.lte(lastPosition) || position.gt(1)) {
+            fail(pointPath + ".position", "expected a position after the previous glide point and at most 1");
+        }
+        lastPosition = position;
+        checkRatio(point.pitch, pointPath + ".pitch");
+    });
+}
+
+function checkExpression(expression: any, path: string): void {
+    checkArray(expression, path);
+    let lastPosition: ExactNumberType = null;
+    expression.forEach((point: any, i: number) => {
+        const pointPath = path + "[" + i + "]";
+        checkObject(point, pointPath, ['position', 'value']);
+        const position = checkExact(point.position, pointPath + ".position");
+        if ((lastPosition !== null && position.lte(lastPosition)) || position.lt(0) || position.gt(1)) {
+            fail(pointPath + ".position", "expected a position after the previous point, between 0 and 1");
+        }
+        lastPosition = position;
+        checkRange(point.value, pointPath + ".value", 0, 1);
+    });
+}
+
+function checkVersion4Note(x: any, path: string): void {
+    checkObject(x, path, ['startTime', 'endTime', 'pitch', 'velocity', 'glide']);
+    checkNoteFields(x, path);
+    checkGlide(x.glide, path + ".glide");
+}
+
+function checkVersion5Note(x: any, path: string): void {
+    checkObject(x, path, ['startTime', 'endTime', 'pitch', 'velocity', 'glide', 'pressure', 'timbre']);
+    checkNoteFields(x, path);
+    checkGlide(x.glide, path + ".glide");
+    checkExpression(x.pressure, path + ".pressure");
+    checkExpression(x.timbre, path + ".timbre");
+}
+
+// The track index is checked against the tracks by the document's validator.
+function checkNote(x: any, path: string): void {
+    checkObject(x, path, ['startTime', 'endTime', 'pitch', 'velocity', 'glide', 'pressure', 'timbre', 'track']);
+    checkNoteFields(x, path);
+    checkGlide(x.glide, path + ".glide");
+    checkExpression(x.pressure, path + ".pressure");
+    checkExpression(x.timbre, path + ".timbre");
+    checkNumber(x.track, path + ".track");
+}
+
+function checkNotes(x: any, path: string, checkNote: (x: any, path: string) => void): void {
+    checkArray(x, path);
+    x.forEach((note: any, i: number) => checkNote(note, path + "[" + i + "]"));
+}
+
+function checkVersion0(doc: any): void {
+    checkObject(doc, "document", ['notes']);
+    checkNotes(doc.notes, "notes", checkVersion1Note);
+}
+
+function checkVersion1(doc: any): void {
+    checkObject(doc, "document", ['version', 'notes', 'tempo', 'grid', 'viewport', 'synth']);
+    checkNotes(doc.notes, "notes", checkVersion1Note);
+    checkPositive(doc.tempo, "tempo");
+
+    checkObject(doc.grid, "grid", ['xsnap', 'ysnap']);
+    checkNumber(doc.grid.xsnap, "grid.xsnap");
+    if (doc.grid.xsnap < 0) {
+        fail("grid.xsnap", "expected a non-negative number");
+    }
+    checkRatio(doc.grid.ysnap, "grid.ysnap");
+
+    checkVersion1Viewport(doc.viewport);
+    checkVersion1Synth(doc.synth);
+}
+
+function checkVersion2(doc: any): void {
+    checkObject(doc, "document", ['version', 'notes', 'tempo', 'grid', 'viewport', 'synth']);
+    checkNotes(doc.notes, "notes", checkVersion2Note);
+    checkPositive(doc.tempo, "tempo");
+    checkVersion2Grid(doc.grid);
+    checkVersion1Viewport(doc.viewport);
+    checkVersion1Synth(doc.synth);
+}
+
+const VERSION3_FIELDS = ['version', 'notes', 'tempoMap', 'grid', 'viewport', 'synth'];
+
+// Versions 3 to 8 differ in their notes and synth, and later ones add fields checked by their own validators.
+function checkVersion3To8(doc: any, fields: string[], checkNote: (x: any, path: string) => void,
+                          checkSynth: (synth: any) => void): void {
+    checkObject(doc, "document", fields);
+    checkNotes(doc.notes, "notes", checkNote);
+    checkTempoMap(doc.tempoMap);
+    checkVersion2Grid(doc.grid);
+    checkVersion1Viewport(doc.viewport);
+    checkSynth(doc.synth);
+}
+
+function checkVersion3(doc: any): void {
+    checkVersion3To8(doc, VERSION3_FIELDS, checkVersion2Note, checkVersion1Synth);
+}
+
+function checkVersion4(doc: any): void {
+    checkVersion3To8(doc, VERSION3_FIELDS, checkVersion4Note, checkVersion1Synth);
+}
+
+function checkVersion5(doc: any): void {
+    checkVersion3To8(doc, VERSION3_FIELDS, checkVersion5Note, checkVersion1Synth);
+}
+
+function checkVersion6(doc: any): void {
+    checkVersion3To8(doc, VERSION3_FIELDS, checkVersion5Note, checkSynth);
+}
+
+function checkVersion7(doc: any): void {
+    checkVersion3To8(doc, [...VERSION3_FIELDS, 'preset'], checkVersion5Note, checkSynth);
+    checkOptionalPresetName(doc.preset, "preset");
+}
+
+function checkVersion8(doc: any): void {
+    checkVersion3To8(doc, [...VERSION3_FIELDS, 'preset', 'effects'], checkVersion5Note, checkSynth);
+    checkOptionalPresetName(doc.preset, "preset");
+    checkEffects(doc.effects);
+}
+
+const VERSION9_FIELDS = ['version', 'notes', 'tracks', 'tempoMap', 'grid', 'viewport', 'synth', 'preset', 'effects'];
+
+// Versions 9 to 14 differ in their grid and viewport, and version 14 adds the meter.
+function checkVersion9To14(doc: any, fields: string[], checkGrid: (grid: any) => void,
+                           checkViewport: (viewport: any) => void): void {
+    checkObject(doc, "document", fields);
+    checkNotesOnTracks(doc, checkVersion9Track);
+    checkTempoMap(doc.tempoMap);
+    checkGrid(doc.grid);
+    checkViewport(doc.viewport);
+    checkSynth(doc.synth);
+    checkOptionalPresetName(doc.preset, "preset");
+    checkEffects(doc.effects);
+}
+
+function checkVersion9(doc: any): void {
+    checkVersion9To14(doc, VERSION9_FIELDS, checkVersion2Grid, checkVersion1Viewport);
+}
+
+function checkVersion10(doc: any): void {
+    checkVersion9To14(doc, VERSION9_FIELDS, checkVersion2Grid, checkViewport);
+}
+
+function checkVersion11(doc: any): void {
+    checkVersion9To14(doc, VERSION9_FIELDS, checkVersion11Grid, checkViewport);
+}
+
+function checkVersion12(doc: any): void {
+    checkVersion9To14(doc, VERSION9_FIELDS, checkVersion12Grid, checkViewport);
+}
+
+function checkVersion13(doc: any): void {
+    checkVersion9To14(doc, VERSION9_FIELDS, checkGrid, checkViewport);
+}
+
+function checkVersion14(doc: any): void {
+    checkVersion9To14(doc, [...VERSION9_FIELDS, 'meter'], checkGrid, checkViewport);
+    checkMeter(doc.meter);
+}
+
+function checkVersion15(doc: any): void {
+    checkObject(doc, "document", ['version', 'notes', 'tracks', 'tempoMap', 'meter', 'grid', 'viewport', 'effects']);
+    checkNotesOnTracks(doc, checkTrack);
+    checkTempoMap(doc.tempoMap);
+    checkMeter(doc.meter);
+    checkGrid(doc.grid);
+    checkViewport(doc.viewport);
+    checkEffects(doc.effects);
+}
+
+// The tracks of a document of version 9 or later, and its notes, each of which is on one of them.
+function checkNotesOnTracks(doc: any, checkTrack: (track: any, path: string) => void): void {
+    checkTracks(doc.tracks, checkTrack);
+    checkNotes(doc.notes, "notes", checkNote);
+    checkNoteTracks(doc.notes, doc.tracks);
+}
+
+function checkNoteTracks(notes: any[], tracks: any[]): void {
+    notes.forEach((note: any, i: number) => {
+        if (! Number.isInteger(note.track) || note.track < 0 || note.track >= tracks.length) {
+            fail("notes[" + i + "].track", "expected the index of a track, from 0 to " + (tracks.length - 1));
+        }
+    });
+}
+
+function checkTracks(tracks: any, checkTrack: (track: any, path: string) => void): void {
+    checkArray(tracks, "tracks");
+    if (tracks.length === 0) {
+        fail("tracks", "expected at least one track");
+    }
+    tracks.forEach((track: any, i: number) => checkTrack(track, "tracks[" + i + "]"));
+}
+
+function checkVersion9Track(track: any, path: string): void {
+    checkObject(track, path, ['name', 'colour', 'volume', 'mute', 'solo', 'visible']);
+    checkTrackFields(track, path);
+}
+
+function checkTrack(track: any, path: string): void {
+    checkObject(track, path, ['name', 'colour', 'volume', 'mute', 'solo', 'visible', 'synth', 'preset']);
+    checkTrackFields(track, path);
+    checkSynth(track.synth, path + ".synth");
+    checkOptionalPresetName(track.preset, path + ".preset");
+}
+
+function checkTrackFields(track: any, path: string): void {
+    if (typeof track.name !== 'string') {
+        fail(path + ".name", "expected a string");
+    }
+    if (typeof track.colour !== 'string' || ! /^#[0-9a-fA-F]{6}$/.test(track.colour)) {
+        fail(path + ".colour", "expected a colour like #00ccff");
+    }
+    checkRange(track.volume, path + ".volume", 0, 1);
+    checkBoolean(track.mute, path + ".mute");
+    checkBoolean(track.solo, path + ".solo");
+    checkBoolean(track.visible, path + ".visible");
+}
+
+function checkPresetName(x: any, path: string): void {
+    if (typeof x !== 'string' || x.trim() === '') {
+        fail(path, "expected a preset name");
+    }
+}
+
+function checkOptionalPresetName(x: any, path: string): void {
+    if (x !== null) {
+        checkPresetName(x, path);
+    }
+}
+
+function checkTempoMap(tempoMap: any): void {
+    checkArray(tempoMap, "tempoMap");
+    if (tempoMap.length === 0) {
+        fail("tempoMap", "expected at least one tempo point");
+    }
+    let lastTime: ExactNumberType = null;
+    tempoMap.forEach((point: any, i: number) => {
+        const path = "tempoMap[" + i + "]";
+        checkObject(point, path, ['time', 'tempo', 'curve']);
+        const time = checkExact(point.time, path + ".time");
+        if (i === 0 && ! time.isZero()) {
+            fail(path + ".time", "the first tempo point must be at time 0");
+        }
+        if (lastTime !== null && time.lte(lastTime)) {
+            fail(path + ".time", "expected a time after the previous tempo point");
+        }
+        lastTime = time;
+        checkRatio(point.tempo, path + ".tempo");
+        if (! TEMPO_CURVES.includes(point.curve)) {
+            fail(path + ".curve", "expected one of " + TEMPO_CURVES.join(", "));
+        }
+    });
+}
+
+function checkMeter(meter: any): void {
+    checkArray(meter, "meter");
+    if (meter.length === 0) {
+        fail("meter", "expected at least one meter");
+    }
+    let lastTime: ExactNumberType = null;
+    meter.forEach((change: any, i: number) => {
+        const path = "meter[" + i + "]";
+        checkObject(change, path, ['time', 'beats', 'unit']);
+        const time = checkExact(change.time, path + ".time");
+        if (i === 0 && ! time.isZero()) {
+            fail(path + ".time", "the first meter must be at time 0");
+        }
+        if (lastTime !== null && time.lte(lastTime)) {
+            fail(path + ".time", "expected a time after the previous change of meter");
+        }
+        lastTime = time;
+        if (! Number.isInteger(change.beats) || change.beats < 1 || change.beats > MAX_METER_BEATS) {
+            fail(path + ".beats", "expected a whole number from 1 to " + MAX_METER_BEATS);
+        }
+        if (! METER_UNITS.includes(change.unit)) {
+            fail(path + ".unit", "expected one of " + METER_UNITS.join(", "));
+        }
+    });
+}
+
+function checkVersion2Grid(grid: any): void {
+    checkObject(grid, "grid", ['xsnap', 'ysnap']);
+    checkSnaps(grid);
+}
+
+function checkVersion11Grid(grid: any): void {
+    checkObject(grid, "grid", ['xsnap', 'ysnap', 'pitch']);
+    checkSnaps(grid);
+    checkPitchGrid(grid.pitch, "grid.pitch");
+}
+
+function checkVersion12Grid(grid: any): void {
+    checkObject(grid, "grid", ['xsnap', 'fundamentals', 'pitch']);
+    checkXSnap(grid);
+    checkFundamentals(grid.fundamentals);
+    checkPitchGrid(grid.pitch, "grid.pitch");
+}
+
+function checkGrid(grid: any): void {
+    checkObject(grid, "grid", ['xsnap', 'subdivisions', 'fundamentals', 'pitch']);
+    checkXSnap(grid);
+    checkSubdivisions(grid.subdivisions);
+    checkFundamentals(grid.fundamentals);
+    checkPitchGrid(grid.pitch, "grid.pitch");
+}
+
+function checkSubdivisions(subdivisions: any): void {
+    checkArray(subdivisions, "grid.subdivisions");
+    if (subdivisions.length === 0) {
+        fail("grid.subdivisions", "expected at least one subdivision");
+    }
+    subdivisions.forEach((n: any, i: number) => {
+        if (! Number.isInteger(n) || n < 1 || n > MAX_SUBDIVISION) {
+            fail("grid.subdivisions[" + i + "]", "expected a whole number from 1 to " + MAX_SUBDIVISION);
+        }
+    });
+}
+
+function checkSnaps(grid: any): void {
+    checkXSnap(grid);
+    checkRatio(grid.ysnap, "grid.ysnap");
+}
+
+function checkXSnap(grid: any): void {
+    if (checkExact(grid.xsnap, "grid.xsnap").lt(0)) {
+        fail("grid.xsnap", "expected a non-negative number");
+    }
+}
+
+function checkFundamentals(fundamentals: any): void {
+    checkArray(fundamentals, "grid.fundamentals");
+    if (fundamentals.length === 0) {
+        fail("grid.fundamentals", "expected at least one fundamental");
+    }
+    let lastTime: ExactNumberType = null;
+    fundamentals.forEach((change: any, i: number) => {
+        const path = "grid.fundamentals[" + i + "]";
+        checkObject(change, path, ['time', 'fundamental']);
+        const time = checkExact(change.time, path + ".time");
+        if (i === 0 && ! time.isZero()) {
+            fail(path + ".time", "the first fundamental must be at time 0");
+        }
+        if (lastTime !== null && time.lte(lastTime)) {
+            fail(path + ".time", "expected a time after the previous change of fundamental");
+        }
+        lastTime = time;
+        checkRatio(change.fundamental, path + ".fundamental");
+    });
+}
+
+function checkPitchGrid(spec: any, path: string): void {
+    if (typeof spec !== 'object' || spec === null) {
+        fail(path, "expected an object");
+    }
+    if (spec.type === "harmonic") {
+        checkObject(spec, path, ['type']);
+    }
+    else if (spec.type === "edo") {
+        checkObject(spec, path, ['type', 'divisions']);
+        checkRange(spec.divisions, path + ".divisions", 1, MAX_EDO);
+        if (! Number.isInteger(spec.divisions)) {
+            fail(path + ".divisions", "expected a whole number");
+        }
+    }
+    else if (spec.type === "scala") {
+        checkObject(spec, path, ['type', 'name', 'degrees']);
+        if (typeof spec.name !== 'string') {
+            fail(path + ".name", "expected a string");
+        }
+        checkArray(spec.degrees, path + ".degrees");
+        if (spec.degrees.length === 0) {
+            fail(path + ".degrees", "expected at least one degree");
+        }
+        let last = N(1);
+        spec.degrees.forEach((degree: any, i: number) => {
+            const ratio = checkExact(degree, path + ".degrees[" + i + "]");
+            if (ratio.lte(last)) {
+                fail(path + ".degrees[" + i + "]", "expected a ratio above 1 and the previous degree");
+            }
+            last = ratio;
+        });
+    }
+    else if (spec.type === "prime-limit") {
+        checkObject(spec, path, ['type', 'limit', 'height']);
+        checkRange(spec.limit, path + ".limit", 2, MAX_PRIME_LIMIT);
+        if (! Number.isInteger(spec.limit)) {
+            fail(path + ".limit", "expected a whole number");
+        }
+        checkRange(spec.height, path + ".height", 1, MAX_TENNEY_HEIGHT);
+    }
+    else if (spec.type === "ratio") {
+        checkObject(spec, path, ['type', 'numerator', 'denominator']);
+        for (const field of ['numerator', 'denominator']) {
+            checkRange(spec[field], path + "." + field, 1, MAX_RATIO_TERM);
+            if (! Number.isInteger(spec[field])) {
+                fail(path + "." + field, "expected a whole number");
+            }
+        }
+    }
+    else if (spec.type === "tenney") {
+        checkObject(spec, path, ['type', 'height']);
+        checkRange(spec.height, path + ".height", 1, MAX_RATIO_HEIGHT);
     }
     else {
-        throw Error("Load error: unsupported version or corrupt document");
+        fail(path + ".type", "expected one of harmonic, edo, scala, prime-limit, ratio, tenney");
+    }
+}
+
+function checkVersion1Viewport(viewport: any): void {
+    checkObject(viewport, "viewport", ['minX', 'maxX', 'minNote', 'maxNote']);
+    checkViewportRange(viewport);
+}
+
+function checkViewport(viewport: any): void {
+    checkObject(viewport, "viewport", ['minX', 'maxX', 'minNote', 'maxNote', 'pitchAxis']);
+    checkViewportRange(viewport);
+    if (! PITCH_AXES.includes(viewport.pitchAxis)) {
+        fail("viewport.pitchAxis", "expected one of " + PITCH_AXES.join(", "));
+    }
+}
+
+function checkViewportRange(viewport: any): void {
+    checkNumber(viewport.minX, "viewport.minX");
+    checkNumber(viewport.maxX, "viewport.maxX");
+    checkNumber(viewport.minNote, "viewport.minNote");
+    checkNumber(viewport.maxNote, "viewport.maxNote");
+    if (viewport.maxX <= viewport.minX) {
+        fail("viewport.maxX", "expected a number greater than viewport.minX");
+    }
+    if (viewport.maxNote <= viewport.minNote) {
+        fail("viewport.maxNote", "expected a number greater than viewport.minNote");
+    }
+}
+
+function checkVersion1Synth(synth: any): void {
+    checkObject(synth, "synth", ['type', 'attack', 'decay', 'sustain', 'release']);
+    if (! WAVE_TYPES.includes(synth.type)) {
+        fail("synth.type", "expected one of " + WAVE_TYPES.join(", "));
+    }
+    checkEnvelope(synth);
+}
+
+function checkSynth(synth: any, path: string = "synth"): void {
+    checkObject(synth, path, ['type', 'attack', 'decay', 'sustain', 'release', 'partials', 'fm']);
+    if (! SYNTH_TYPES.includes(synth.type)) {
+        fail(path + ".type", "expected one of " + SYNTH_TYPES.join(", "));
+    }
+    checkEnvelope(synth, path);
+
+    checkArray(synth.partials, path + ".partials");
+    if (synth.partials.length === 0 || synth.partials.length > MAX_PARTIALS) {
+        fail(path + ".partials", "expected between 1 and " + MAX_PARTIALS + " partials");
+    }
+    synth.partials.forEach((amplitude: any, i: number) => checkRange(amplitude, path + ".partials[" + i + "]", 0, 1));
+
+    checkObject(synth.fm, path + ".fm", ['carrier', 'modulator', 'index']);
+    checkFMRatioTerm(synth.fm.carrier, path + ".fm.carrier");
+    checkFMRatioTerm(synth.fm.modulator, path + ".fm.modulator");
+    checkRange(synth.fm.index, path + ".fm.index", 0, 50);
+}
+
+function checkFMRatioTerm(x: any, path: string): void {
+    checkRange(x, path, 1, 32);
+    if (! Number.isInteger(x)) {
+        fail(path, "expected a whole number");
+    }
+}
+
+function checkEnvelope(synth: any, path: string = "synth"): void {
+    checkRange(synth.attack, path + ".attack", 0, 5);
+    checkRange(synth.decay, path + ".decay", 0, 20);
+    checkRange(synth.sustain, path + ".sustain", 0, 1);
+    checkRange(synth.release, path + ".release", 0, 5);
+}
+
+function checkEffects(effects: any): void {
+    checkObject(effects, "effects", ['eq', 'filter', 'delay', 'reverb', 'compressor', 'limiter', 'volume']);
+    checkObject(effects.eq, "effects.eq", ['low', 'mid', 'high']);
+    checkRange(effects.eq.low, "effects.eq.low", -24, 12);
+    checkRange(effects.eq.mid, "effects.eq.mid", -24, 12);
+    checkRange(effects.eq.high, "effects.eq.high", -24, 12);
+    checkObject(effects.filter, "effects.filter", ['highpass', 'lowpass']);
+    checkRange(effects.filter.highpass, "effects.filter.highpass", 20, 20000);
+    checkRange(effects.filter.lowpass, "effects.filter.lowpass", 20, 20000);
+    checkObject(effects.delay, "effects.delay", ['time', 'feedback', 'wet']);
+    checkRange(effects.delay.time, "effects.delay.time", 0.01, 2);
+    checkRange(effects.delay.feedback, "effects.delay.feedback", 0, 0.95);
+    checkRange(effects.delay.wet, "effects.delay.wet", 0, 1);
+    checkObject(effects.reverb, "effects.reverb", ['decay', 'wet']);
+    checkRange(effects.reverb.decay, "effects.reverb.decay", 0.1, 20);
+    checkRange(effects.reverb.wet, "effects.reverb.wet", 0, 1);
+    checkObject(effects.compressor, "effects.compressor", ['threshold', 'ratio']);
+    checkRange(effects.compressor.threshold, "effects.compressor.threshold", -60, 0);
+    checkRange(effects.compressor.ratio, "effects.compressor.ratio", 1, 20);
+    checkObject(effects.limiter, "effects.limiter", ['threshold']);
+    checkRange(effects.limiter.threshold, "effects.limiter.threshold", -24, 0);
+    checkRange(effects.volume, "effects.volume", -60, 12);
+}
+
+// Older versions stored times and tempos as floats; recover the exact ratio a float was rounded from.
+function exactFromFloat(x: number): string {
+    if (Number.isInteger(x)) {
+        return String(x);
+    }
+    const ratio = Utils.simplestRatioBetween(Math.abs(x) - 1e-9, Math.abs(x) + 1e-9, 1e6);
+    if (ratio === null) {
+        return N(String(x)).toString();
+    }
+    return N(ratio[0], ratio[1]).mul(Math.sign(x)).normalize().toString();
+}
+
+// validators[v] checks a document of version v, and migrations[v] turns it into version v+1.
+const validators: ((doc: any) => void)[] = [
+    checkVersion0,
+    checkVersion1,
+    checkVersion2,
+    checkVersion3,
+    checkVersion4,
+    checkVersion5,
+    checkVersion6,
+    checkVersion7,
+    checkVersion8,
+    checkVersion9,
+    checkVersion10,
+    checkVersion11,
+    checkVersion12,
+    checkVersion13,
+    checkVersion14,
+    checkVersion15,
+];
+
+const migrations: ((doc: any) => any)[] = [
+    (doc: Version0): Version1 => ({
+        version: 1,
+        notes: doc.notes,
+        // The settings every version 0 document was edited with.
+        tempo: 4,
+        grid: { xsnap: 1, ysnap: "216" },
+        viewport: { minX: 0, maxX: 40, minNote: 36, maxNote: 108 },
+        synth: { type: "triangle", attack: 0.05, decay: 1, sustain: 0.25, release: 1 },
+    }),
+    (doc: Version1): Version2 => ({
+        ...doc,
+        version: 2,
+        notes: doc.notes.map(n => ({ ...n, startTime: exactFromFloat(n.startTime), endTime: exactFromFloat(n.endTime) })),
+        grid: { ...doc.grid, xsnap: exactFromFloat(doc.grid.xsnap) },
+    }),
+    (doc: Version2): Version3 => ({
+        version: 3,
+        notes: doc.notes,
+        tempoMap: [{ time: "0", tempo: exactFromFloat(doc.tempo), curve: "step" }],
+        grid: doc.grid,
+        viewport: doc.viewport,
+        synth: doc.synth,
+    }),
+    (doc: Version3): Version4 => ({
+        ...doc,
+        version: 4,
+        notes: doc.notes.map((n): Version4Note => ({ ...n, glide: [] })),
+    }),
+    (doc: Version4): Version5 => ({
+        ...doc,
+        version: 5,
+        notes: doc.notes.map((n): Version5Note => ({ ...n, pressure: [], timbre: [] })),
+    }),
+    (doc: Version5): Version6 => ({
+        ...doc,
+        version: 6,
+        synth: { ...doc.synth, partials: DEFAULT_PARTIALS, fm: { carrier: 1, modulator: 1, index: 2 } },
+    }),
+    (doc: Version6): Version7 => ({
+        ...doc,
+        version: 7,
+        preset: null,
+    }),
+    (doc: Version7): Version8 => ({
+        ...doc,
+        version: 8,
+        effects: DEFAULT_EFFECTS,
+    }),
+    (doc: Version8): Version9 => ({
+        ...doc,
+        version: 9,
+        notes: doc.notes.map(n => ({ ...n, track: 0 })),
+        tracks: [{ name: "Track 1", colour: DEFAULT_TRACK_COLOUR, volume: 1, mute: false, solo: false, visible: true }],
+    }),
+    (doc: Version9): Version10 => ({
+        ...doc,
+        version: 10,
+        viewport: { ...doc.viewport, pitchAxis: "log" },
+    }),
+    (doc: Version10): Version11 => ({
+        ...doc,
+        version: 11,
+        grid: { ...doc.grid, pitch: { type: "harmonic" } },
+    }),
+    (doc: Version11): Version12 => ({
+        ...doc,
+        version: 12,
+        grid: {
+            xsnap: doc.grid.xsnap,
+            fundamentals: [{ time: "0", fundamental: doc.grid.ysnap }],
+            pitch: doc.grid.pitch,
+        },
+    }),
+    (doc: Version12): Version13 => ({
+        ...doc,
+        version: 13,
+        grid: { ...doc.grid, subdivisions: [1] },
+    }),
+    (doc: Version13): Version14 => ({
+        ...doc,
+        version: 14,
+        meter: [{ time: "0", beats: 4, unit: 4 }],
+    }),
+    // Every track gets the score's one web synth.
+    (doc: Version14): Version15 => ({
+        version: CURRENT_VERSION,
+        notes: doc.notes,
+        tracks: doc.tracks.map(t => ({ ...t, synth: doc.synth, preset: doc.preset })),
+        tempoMap: doc.tempoMap,
+        meter: doc.meter,
+        grid: doc.grid,
+        viewport: doc.viewport,
+        effects: doc.effects,
+    }),
+];
+
+export function loadScore(doc: object): Score {
+    if (typeof doc !== 'object' || doc === null) {
+        fail("document", "expected an object");
+    }
+    let version = 0;
+    if ('version' in doc) {
+        const v = (doc as { version: unknown }).version;
+        if (typeof v !== 'number' || ! Number.isInteger(v) || v < 1) {
+            fail("version", "expected a version number of 1 or more");
+        }
+        if (v > CURRENT_VERSION) {
+            fail("version", "version " + v + " is newer than this editor supports (" + CURRENT_VERSION + ")");
+        }
+        version = v;
+    }
+
+    let current: any = doc;
+    for (; version < CURRENT_VERSION; version++) {
+        validators[version](current);
+        current = migrations[version](current);
+    }
+    validators[CURRENT_VERSION](current);
+    return current;
+}
+
+export function loadPresets(doc: object): Preset[] {
+    const x: any = doc;
+    checkObject(x, "presets file", ['version', 'presets']);
+    if (x.version !== PRESETS_VERSION) {
+        fail("version", "expected presets version " + PRESETS_VERSION);
     }
+    checkArray(x.presets, "presets");
+    x.presets.forEach((preset: any, i: number) => {
+        const path = "presets[" + i + "]";
+        checkObject(preset, path, ['name', 'synth']);
+        checkPresetName(preset.name, path + ".name");
+        checkSynth(preset.synth, path + ".synth");
+    });
+    return x.presets;
 }
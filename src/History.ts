@@ -0,0 +1,42 @@
+export class History<T> {
+    private undoStack: T[];
+    private redoStack: T[];
+    private limit: number;
+
+    constructor(limit: number) {
+        this.undoStack = [];
+        this.redoStack = [];
+        this.limit = limit;
+    }
+
+    // Record the state as it was before an edit.
+    push(state: T): void {
+        this.undoStack.push(state);
+        if (this.undoStack.length > this.limit) {
+            this.undoStack.splice(0, 1);
+        }
+        this.redoStack = [];
+    }
+
+    // Returns the state to restore, or null if there is nothing to undo.
+    undo(current: T): T {
+        if (this.undoStack.length === 0) {
+            return null;
+        }
+        this.redoStack.push(current);
+        return this.undoStack.pop();
+    }
+
+    redo(current: T): T {
+        if (this.redoStack.length === 0) {
+            return null;
+        }
+        this.undoStack.push(current);
+        return this.redoStack.pop();
+    }
+
+    clear(): void {
+        this.undoStack = [];
+        this.redoStack = [];
+    }
+}
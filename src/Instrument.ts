@@ -1,12 +1,28 @@
 import { default as p5mod } from "p5";
 import * as Tone from "tone";
+import * as FileType from "./FileType";
+import * as Utils from "./Utils";
+import { PresetLibrary } from "./Presets";
+import { Iso, makeButton, makeFader, makeNumberInput, makeTable } from "./Controls";
 
 declare var p5: p5mod;
 
 const CLEANUP_LATENCY : number = 0.250;
 
+// Per-note MPE expression: channel pressure, and timbre as CC74. Values are in [0,1].
+export type Expression = 'pressure' | 'timbre';
+
+export const EXPRESSIONS: Expression[] = ['pressure', 'timbre'];
+
 export interface PlayingNote {
     stop(when: number): void;
+
+    // Move the pitch from where it was last set, evenly in log frequency, to reach freq at when.
+    glideTo(when: number, freq: number): void;
+
+    // Move the expression linearly from where it was last set to reach value at when.
+    // The first time, it is set at when.
+    expressTo(when: number, expression: Expression, value: number): void;
 }
 
 export interface Instrument {
@@ -23,57 +39,92 @@ type Time = number;
 
 Tone.Transport.start();
 
+const TIMBRE_MIN_CUTOFF = 100;  // Hz of the web synth's lowpass filter at timbre 0
+const TIMBRE_MAX_CUTOFF = 20000;  // and at timbre 1, or without timbre
+
+// The web synth's filter cutoff for a timbre value, moving evenly in log frequency.
+function timbreCutoff(timbre: number): number {
+    return TIMBRE_MIN_CUTOFF * Math.pow(TIMBRE_MAX_CUTOFF / TIMBRE_MIN_CUTOFF, timbre);
+}
+
+type OscillatorVoice = Tone.Oscillator | Tone.FMOscillator;
+
+type ToneVoice = OscillatorVoice | Tone.ToneBufferSource;
+
 class AmplitudeControl {
-    private osc: Tone.Oscillator;
+    private osc: ToneVoice;
+    private glide: (when: Time, freq: number) => void;
+    private filter: Tone.Filter;
     private env: Tone.Envelope;
+    private pressure: Tone.Gain;
+    private expressed: Set<Expression>;
     
-    constructor(osc: Tone.Oscillator, envelope: Tone.Envelope)
+    // glide moves the voice's pitch, which for a sample is its playback rate.
+    constructor(osc: ToneVoice, envelope: Tone.Envelope, output: Tone.InputNode, glide: (when: Time, freq: number) => void)
     {
         this.osc = osc;
+        this.glide = glide;
         this.env = envelope;
+        this.filter = new Tone.Filter(TIMBRE_MAX_CUTOFF, 'lowpass');
+        this.pressure = new Tone.Gain(1);
+        if (output === null) {
+            this.pressure.toDestination();
+        }
+        else {
+            this.pressure.connect(output);
+        }
+        this.expressed = new Set();
 
-        osc.connect(this.env);
+        osc.chain(this.filter, this.env, this.pressure);
     }
 
     triggerAttack(when: Time): void {
         this.env.triggerAttack(when);
     }
 
+    glideTo(when: Time, freq: number): void {
+        this.glide(when, freq);
+    }
+
+    // Pressure scales the amplitude, and timbre opens the filter.
+    expressTo(when: Time, expression: Expression, value: number): void {
+        const first = ! this.expressed.has(expression);
+        this.expressed.add(expression);
+        if (expression === 'pressure') {
+            if (first) {
+                this.pressure.gain.setValueAtTime(value, when);
+            }
+            else {
+                this.pressure.gain.linearRampToValueAtTime(value, when);
+            }
+        }
+        else {
+            if (first) {
+                this.filter.frequency.setValueAtTime(timbreCutoff(value), when);
+            }
+            else {
+                this.filter.frequency.exponentialRampToValueAtTime(timbreCutoff(value), when);
+            }
+        }
+    }
+
     triggerRelease(when: Time): void {
         this.env.triggerRelease(when);
+        this.osc.stop(when + Tone.Time(this.env.release).toSeconds() + CLEANUP_LATENCY);
+        if (this.osc.context.isOffline) {
+            // Rendering starts after everything has been scheduled, so the nodes must outlive the timeout.
+            // They go away with the offline context.
+            return;
+        }
         setTimeout(() => {
             this.osc.dispose();
+            this.filter.dispose();
             this.env.dispose();
+            this.pressure.dispose();
         }, 1000 * (when - Tone.now() + Tone.Time(this.env.release).toSeconds() + CLEANUP_LATENCY));
     }
 }
 
-class Iso<T, U> {
-    public to : (x: T) => U;
-    public from : (x: U) => T;
-    constructor(to: (x: T) => U, from: (x: U) => T) {
-        this.to = to;
-        this.from = from;
-    }
-
-    static linearScale(min: number, max: number): Iso<number, number> {
-        return new Iso((x: number) => min + x * (max - min), 
-                       (y: number) => (y - min) / (max - min));
-    }
-
-    static powerScale(power: number): Iso<number, number> {
-        return new Iso((x: number) => Math.pow(x, power), (y: number) => Math.pow(y, 1/power));
-    }
-
-    static positiveScale(): Iso<number, number> {
-        return new Iso((x: number) => 1 / (1 - x) - 1, (y: number) => 1 - 1 / (y + 1));
-    }
-
-    compose<V>(i: Iso<U,V>): Iso<T, V> {
-        return new Iso((x: T) => i.to(this.to(x)), (y:V) => this.from(i.from(y)));
-    }
-}
-
 class TonePlayingNote implements PlayingNote {
     private osc: AmplitudeControl;
     private oscs: Set<TonePlayingNote>;
@@ -88,6 +139,14 @@ class TonePlayingNote implements PlayingNote {
         this.osc.triggerRelease(when);
         this.oscs.delete(this);
     }
+
+    glideTo(when: number, freq: number): void {
+        this.osc.glideTo(when, freq);
+    }
+
+    expressTo(when: number, expression: Expression, value: number): void {
+        this.osc.expressTo(when, expression, value);
+    }
 }
 
 function cloneSet<T>(s : Set<T>): Set<T> {
@@ -98,6 +157,16 @@ function cloneSet<T>(s : Set<T>): Set<T> {
     return r;
 }
 
+const SPECTRUM_WIDTH = 320;  // pixels of the partials editor
+const SPECTRUM_HEIGHT = 80;
+
+// The carrier of an FM voice runs at this many times the note's frequency: the carrier term of carrier:modulator
+// in lowest terms. Its partials, at carrier ± k modulator times the note's frequency over their common divisor,
+// are then whole multiples of the note's frequency with nothing in common, so the note sounds at its pitch.
+export function fmCarrierRatio(fm: FileType.FMParams): number {
+    return fm.carrier / Utils.gcd(fm.carrier, fm.modulator);
+}
+
 export class ToneSynth implements Instrument {
     private oscs: Set<TonePlayingNote>;
 
@@ -106,21 +175,95 @@ export class ToneSynth implements Instrument {
     private sustain: number;
     private release: number;
     private type: string;
+    private partials: number[];
+    private fm: FileType.FMParams;
 
-    constructor() {
+    private presets: PresetLibrary;
+    private preset: string;  // the name of the preset last recalled or saved, or null
+
+    private output: Tone.InputNode;  // where voices are sent, or null for the destination
+    private paramsDiv: HTMLElement;
+
+    constructor(presets: PresetLibrary) {
         this.oscs = new Set();
         this.attack = 0.05;
         this.decay = 1;
         this.sustain = 0.25;
         this.release = 1;
         this.type = "triangle";
+        this.partials = [...FileType.DEFAULT_PARTIALS];
+        this.fm = { carrier: 1, modulator: 1, index: 2 };
+        this.presets = presets;
+        this.preset = null;
+        this.output = null;
+        this.paramsDiv = null;
+    }
+
+    // Sends notes started from now on to output, which must be in the context they are started in.
+    setOutput(output: Tone.InputNode): void {
+        this.output = output;
+    }
+
+    getPreset(): string {
+        return this.preset;
+    }
+
+    getParams(): FileType.SynthParams {
+        return {
+            type: this.type,
+            attack: this.attack,
+            decay: this.decay,
+            sustain: this.sustain,
+            release: this.release,
+            partials: [...this.partials],
+            fm: { ...this.fm },
+        };
+    }
+
+    setParams(params: FileType.SynthParams, preset: string = null): void {
+        this.preset = preset;
+        this.type = params.type;
+        this.attack = params.attack;
+        this.decay = params.decay;
+        this.sustain = params.sustain;
+        this.release = params.release;
+        this.partials = [...params.partials];
+        this.fm = { ...params.fm };
+
+        if (this.paramsDiv) {
+            this.fillParamsHTML(this.paramsDiv);
+        }
+    }
+
+    // The frequency of the voice's oscillator over the note's.
+    private frequencyRatio(): number {
+        return this.type === 'fm' ? fmCarrierRatio(this.fm) : 1;
+    }
+
+    private makeVoice(freq: number): OscillatorVoice {
+        if (this.type === 'fm') {
+            return new Tone.FMOscillator({
+                frequency: freq * this.frequencyRatio(),
+                harmonicity: this.fm.modulator / this.fm.carrier,
+                modulationIndex: this.fm.index,
+            });
+        }
+        else if (this.type === 'additive') {
+            return new Tone.Oscillator({ frequency: freq, partials: [...this.partials] });
+        }
+        else {
+            return new Tone.Oscillator(freq, this.type as Tone.ToneOscillatorType);
+        }
     }
 
     startNote(when: number, freq: number, velocity: number): PlayingNote {
-        const env = new Tone.AmplitudeEnvelope(this.attack, this.decay, this.sustain, this.release).toDestination();
-        const osc = new Tone.Oscillator(freq, this.type as Tone.ToneOscillatorType).start();
+        const env = new Tone.AmplitudeEnvelope(this.attack, this.decay, this.sustain, this.release);
+        const ratio = this.frequencyRatio();
+        const osc = this.makeVoice(freq).start();
+        osc.frequency.setValueAtTime(freq * ratio, when);
         osc.volume.value = 10 * Math.log2(velocity) - 10;
-        const amp = new AmplitudeControl(osc, env);
+        const amp = new AmplitudeControl(osc, env, this.output,
+                                         (t: Time, f: number) => osc.frequency.exponentialRampToValueAtTime(f * ratio, t));
         amp.triggerAttack(when);
 
         return new TonePlayingNote(amp, this.oscs);
@@ -139,51 +282,16 @@ export class ToneSynth implements Instrument {
         }
     }
 
-    private makeTable(elements: HTMLElement[][]) {
-        const tableEl = document.createElement('table');
-        for (const row of elements) {
-            const tr = document.createElement('tr');
-            tableEl.appendChild(tr);
-
-            for (const col of row) {
-                const td = document.createElement('td');
-                tr.appendChild(td);
-
-                td.appendChild(col);
-            }
-        }
-        return tableEl;
+    getParamsHTML() {
+        this.paramsDiv = document.createElement('div');
+        this.fillParamsHTML(this.paramsDiv);
+        return this.paramsDiv;
     }
 
-    private makeFader(label: string, value: number, scale: Iso<number, number>, onChange: (v: number) => void) {
-        const spanEl = document.createElement('span');
-        spanEl.setAttribute('class', 'fader');
-
-        const labelEl = document.createElement('label');
-        labelEl.innerText = label;
-
-        const inputEl = document.createElement('input');
-        inputEl.setAttribute('type', 'range');
-        inputEl.setAttribute('orient', 'vertical');
-        inputEl.setAttribute('min', '0');
-        inputEl.setAttribute('max', '1');
-        inputEl.setAttribute('step', 'any');
-        inputEl.value = String(scale.from(value));
+    private fillParamsHTML(div: HTMLElement) {
+        div.innerHTML = '';
 
-        const valueEl = document.createElement('span');
-        valueEl.innerText = value.toFixed(2);
-
-        inputEl.addEventListener('input', (e) => {
-            const scaledVal = scale.to(Number(inputEl.value));
-            valueEl.innerText = scaledVal.toFixed(2);
-            onChange(scaledVal);
-        });
-
-        spanEl.appendChild(this.makeTable([[labelEl], [inputEl], [valueEl]]));
-        return spanEl;
-    }
-    getParamsHTML() {
-        const div = document.createElement('div');
+        div.appendChild(this.makePresetControls());
 
         const typeDiv = document.createElement('div');
         div.appendChild(typeDiv);
@@ -191,43 +299,352 @@ export class ToneSynth implements Instrument {
         typeDiv.innerText = "Type: ";
         typeDiv.appendChild(typeEl);
 
-        for (const type of ["sine", "square", "triangle", "sawtooth"]) {
+        for (const type of FileType.SYNTH_TYPES) {
             const option = document.createElement('option');
             option.setAttribute('value', type);
             option.innerText = type;
             typeEl.appendChild(option);
         }
         typeEl.value = this.type;
-        typeEl.addEventListener('change', () => { this.type = typeEl.value; });
+        typeEl.addEventListener('change', () => {
+            this.type = typeEl.value;
+            this.fillParamsHTML(div);
+        });
 
 
         div.appendChild(
-            this.makeFader('A', this.attack,
+            makeFader('A', this.attack,
                            Iso.powerScale(3).compose(Iso.linearScale(0, 5)), (v: number) => { this.attack = v }))
         div.appendChild(
-            this.makeFader('D', this.decay,
+            makeFader('D', this.decay,
                            Iso.powerScale(3).compose(Iso.linearScale(0, 20)), (v: number) => { this.decay = v }));
         div.appendChild(
-            this.makeFader('S', this.sustain,
+            makeFader('S', this.sustain,
                            Iso.linearScale(0, 1), (v: number) => { this.sustain = v }));
         div.appendChild(
-            this.makeFader('R', this.release,
+            makeFader('R', this.release,
                            Iso.powerScale(3).compose(Iso.linearScale(0, 5)), (v: number) => { this.release = v }));
 
+        if (this.type === 'additive') {
+            div.appendChild(this.makeSpectrumEditor());
+        }
+        else if (this.type === 'fm') {
+            div.appendChild(this.makeFMControls());
+        }
+    }
+
+    // Recalls, saves, deletes, imports and exports presets. A preset that came with a score
+    // but isn't in this browser is listed until another is chosen, and can be saved.
+    private makePresetControls() {
+        const presetDiv = document.createElement('div');
+        presetDiv.innerText = 'Preset: ';
+        const selectEl = document.createElement('select');
+        presetDiv.appendChild(selectEl);
+
+        const options: [string, string][] = [['', '(none)'], ...this.presets.names().map((name): [string, string] => [name, name])];
+        if (this.preset !== null && ! this.presets.has(this.preset)) {
+            options.push([this.preset, this.preset + ' (from score)']);
+        }
+        for (const [value, label] of options) {
+            const option = document.createElement('option');
+            option.setAttribute('value', value);
+            option.innerText = label;
+            selectEl.appendChild(option);
+        }
+        selectEl.value = this.preset === null ? '' : this.preset;
+        selectEl.addEventListener('change', () => {
+            if (this.presets.has(selectEl.value)) {
+                this.setParams(this.presets.get(selectEl.value), selectEl.value);
+            }
+            else if (selectEl.value === '') {
+                this.preset = null;
+            }
+        });
+
+        presetDiv.appendChild(makeButton('Save', () => {
+            const name = window.prompt('Save synth preset as', this.preset === null ? '' : this.preset);
+            if (name === null || name.trim() === '') {
+                return;
+            }
+            this.presets.save(name.trim(), this.getParams());
+            this.preset = name.trim();
+            this.fillParamsHTML(this.paramsDiv);
+        }));
+        presetDiv.appendChild(makeButton('Delete', () => {
+            if (! this.presets.has(this.preset) || ! window.confirm('Delete the preset "' + this.preset + '"?')) {
+                return;
+            }
+            this.presets.remove(this.preset);
+            this.preset = null;
+            this.fillParamsHTML(this.paramsDiv);
+        }));
+        presetDiv.appendChild(makeButton('Import', async () => {
+            const data = await Utils.openFile('.json');
+            if (data === null) {
+                return;
+            }
+            try {
+                this.presets.addAll(JSON.parse(new TextDecoder().decode(data)));
+            }
+            catch (e) {
+                alert(e.message);
+                return;
+            }
+            this.fillParamsHTML(this.paramsDiv);
+        }));
+        presetDiv.appendChild(makeButton('Export', () => {
+            Utils.downloadFile('presets.json', JSON.stringify(this.presets.serialize(), null, 2), 'application/json');
+        }));
+        return presetDiv;
+    }
+
+    // Bars for the amplitudes of partials 1..N, set by clicking or dragging over them.
+    private makeSpectrumEditor() {
+        const div = document.createElement('div');
+
+        const canvas = document.createElement('canvas');
+        canvas.width = SPECTRUM_WIDTH;
+        canvas.height = SPECTRUM_HEIGHT;
+        canvas.style.border = '1px solid #ccc';
+        canvas.style.display = 'block';
+        const ctx = canvas.getContext('2d');
+
+        const draw = () => {
+            const barWidth = SPECTRUM_WIDTH / this.partials.length;
+            ctx.clearRect(0, 0, SPECTRUM_WIDTH, SPECTRUM_HEIGHT);
+            ctx.fillStyle = '#0066cc';
+            this.partials.forEach((amplitude, i) => {
+                ctx.fillRect(i * barWidth + 1, SPECTRUM_HEIGHT * (1 - amplitude), barWidth - 2, SPECTRUM_HEIGHT * amplitude);
+            });
+        };
+
+        const setFromMouse = (e: MouseEvent) => {
+            const rect = canvas.getBoundingClientRect();
+            const i = Math.floor((e.clientX - rect.left) / (SPECTRUM_WIDTH / this.partials.length));
+            if (i < 0 || i >= this.partials.length) {
+                return;
+            }
+            this.partials[i] = Math.max(0, Math.min(1, 1 - (e.clientY - rect.top) / SPECTRUM_HEIGHT));
+            draw();
+        };
+        canvas.addEventListener('mousedown', setFromMouse);
+        canvas.addEventListener('mousemove', (e: MouseEvent) => {
+            if (e.buttons & 1) {
+                setFromMouse(e);
+            }
+        });
+
+        div.appendChild(makeNumberInput('Partials', this.partials.length, 1, FileType.MAX_PARTIALS, (n: number) => {
+            this.partials = Array.from({ length: n }, (_, i) => i < this.partials.length ? this.partials[i] : 0);
+            draw();
+        }));
+        div.appendChild(canvas);
+        draw();
         return div;
     }
+
+    private makeFMControls() {
+        const div = document.createElement('div');
+        div.appendChild(makeNumberInput('Carrier', this.fm.carrier, 1, 32, (v: number) => { this.fm.carrier = v }));
+        div.appendChild(document.createTextNode(' : '));
+        div.appendChild(makeNumberInput('Modulator', this.fm.modulator, 1, 32, (v: number) => { this.fm.modulator = v }));
+        div.appendChild(
+            makeFader('Index', this.fm.index,
+                           Iso.powerScale(2).compose(Iso.linearScale(0, 50)), (v: number) => { this.fm.index = v }));
+        return div;
+    }
+}
+
+const SAMPLE_ATTACK = 0.005;  // seconds of fade in, so that samples cut at any point don't click
+const DEFAULT_SAMPLE_ROOT = 440;  // Hz, for samples whose file names don't say
+
+// A recording that sounds at root Hz when played at its own speed.
+export type Sample = {
+    name: string,
+    root: number,
+    buffer: AudioBuffer,
+};
+
+// The root frequency given in a sample's file name, as "...261.6Hz..." or a note name like "A#3", or null.
+export function sampleRootFromName(name: string): number {
+    const stem = name.replace(/\.[^.]*$/, '');
+    const hz = stem.match(/(\d+(?:\.\d+)?)\s*hz/i);
+    if (hz) {
+        return Number(hz[1]);
+    }
+    const note = stem.match(/(?:^|[^a-z])([a-g])(#|b)?(-?\d)(?![a-z0-9])/i);
+    if (note) {
+        const semitones: { [letter: string]: number } = { c: 0, d: 2, e: 4, f: 5, g: 7, a: 9, b: 11 };
+        const accidental = note[2] === '#' ? 1 : note[2] === 'b' ? -1 : 0;
+        const midiNote = 12 * (Number(note[3]) + 1) + semitones[note[1].toLowerCase()] + accidental;
+        return 440 * Math.pow(2, (midiNote - 69) / 12);
+    }
+    return null;
+}
+
+const SILENT_NOTE: PlayingNote = {
+    stop(when: number): void {},
+    glideTo(when: number, freq: number): void {},
+    expressTo(when: number, expression: Expression, value: number): void {},
+};
+
+// Plays each note with the sample whose root is nearest in log frequency, sped up or slowed
+// down to sound at exactly the note's frequency.
+export class SampleInstrument implements Instrument {
+    private notes: Set<TonePlayingNote>;
+    private samples: Sample[];
+    private release: number;
+    private output: Tone.InputNode;  // where notes are sent, or null for the destination
+    private paramsDiv: HTMLElement;
+
+    constructor() {
+        this.notes = new Set();
+        this.samples = [];
+        this.release = 0.5;
+        this.output = null;
+        this.paramsDiv = null;
+    }
+
+    setOutput(output: Tone.InputNode): void {
+        this.output = output;
+    }
+
+    // Decodes the files and adds them as samples, with roots from their names. Throws if a file isn't audio.
+    async addFiles(files: File[]): Promise<void> {
+        for (const file of files) {
+            let buffer: AudioBuffer;
+            try {
+                buffer = await Tone.getContext().decodeAudioData(await file.arrayBuffer());
+            }
+            catch (e) {
+                throw Error("Can't decode " + file.name + " as audio");
+            }
+            const root = sampleRootFromName(file.name);
+            this.samples.push({ name: file.name, root: root === null ? DEFAULT_SAMPLE_ROOT : root, buffer: buffer });
+        }
+        if (this.paramsDiv) {
+            this.fillParamsHTML(this.paramsDiv);
+        }
+    }
+
+    private nearestSample(freq: number): Sample {
+        let nearest: Sample = null;
+        for (const sample of this.samples) {
+            if (nearest === null || Math.abs(Math.log(freq / sample.root)) < Math.abs(Math.log(freq / nearest.root))) {
+                nearest = sample;
+            }
+        }
+        return nearest;
+    }
+
+    startNote(when: number, freq: number, velocity: number): PlayingNote {
+        const sample = this.nearestSample(freq);
+        if (sample === null) {
+            return SILENT_NOTE;
+        }
+        const env = new Tone.AmplitudeEnvelope(SAMPLE_ATTACK, 0, 1, this.release);
+        const source = new Tone.ToneBufferSource(sample.buffer);
+        source.playbackRate.setValueAtTime(freq / sample.root, when);
+        source.start(when, 0, undefined, Tone.dbToGain(10 * Math.log2(velocity) - 10));
+        const amp = new AmplitudeControl(source, env, this.output,
+                                         (t: Time, f: number) => source.playbackRate.exponentialRampToValueAtTime(f / sample.root, t));
+        amp.triggerAttack(when);
+
+        return new TonePlayingNote(amp, this.notes);
+    }
+
+    playNote(when: number, duration: number, freq: number, velocity: number): void {
+        const note = this.startNote(when, freq, velocity);
+        note.stop(when + duration);
+    }
+
+    stopAllNotes(when: number): void {
+        for (const note of cloneSet(this.notes)) {
+            note.stop(when);
+        }
+    }
+
+    getParamsHTML() {
+        this.paramsDiv = document.createElement('div');
+        this.fillParamsHTML(this.paramsDiv);
+        return this.paramsDiv;
+    }
+
+    // The loaded samples with their editable roots, and the release shared by all notes.
+    private fillParamsHTML(div: HTMLElement) {
+        div.innerHTML = '';
+
+        div.appendChild(makeButton('Load samples', async () => {
+            try {
+                await this.addFiles(await Utils.openFiles('audio/*'));
+            }
+            catch (e) {
+                alert(e.message);
+            }
+        }));
+
+        const rows = this.samples.map((sample: Sample) => {
+            const nameEl = document.createElement('span');
+            nameEl.innerText = sample.name;
+
+            const rootEl = document.createElement('span');
+            rootEl.innerText = 'Root (Hz): ';
+            const inputEl = document.createElement('input');
+            inputEl.setAttribute('type', 'number');
+            inputEl.setAttribute('min', '1');
+            inputEl.setAttribute('step', 'any');
+            inputEl.style.width = '6em';
+            inputEl.value = String(Number(sample.root.toFixed(3)));
+            inputEl.addEventListener('change', () => {
+                const root = Number(inputEl.value);
+                if (root > 0 && isFinite(root)) {
+                    sample.root = root;
+                }
+                inputEl.value = String(Number(sample.root.toFixed(3)));
+            });
+            rootEl.appendChild(inputEl);
+
+            const removeEl = makeButton('Remove', () => {
+                this.samples = this.samples.filter(s => s !== sample);
+                this.fillParamsHTML(div);
+            });
+            return [nameEl, rootEl, removeEl];
+        });
+        if (rows.length === 0) {
+            const noneEl = document.createElement('div');
+            noneEl.innerText = 'No samples loaded';
+            div.appendChild(noneEl);
+        }
+        else {
+            div.appendChild(makeTable(rows));
+        }
+
+        div.appendChild(
+            makeFader('R', this.release,
+                      Iso.powerScale(3).compose(Iso.linearScale(0, 5)), (v: number) => { this.release = v }));
+    }
 }
 
 export async function initializeMidiAccess(): Promise<ReadonlyMap<string, WebMidi.MIDIOutput>> {
     if (!navigator.requestMIDIAccess) {
       console.warn("Web MIDI API not supported in this browser");
-      return;
+      return new Map();
     }
 
-    const midiAccess = await navigator.requestMIDIAccess();
+    // SysEx is needed for MIDI Tuning Standard, but outputs without it are still useful.
+    let midiAccess: WebMidi.MIDIAccess;
+    try {
+      midiAccess = await navigator.requestMIDIAccess({ sysex: true } as WebMidi.MIDIOptions).catch((e) => {
+        console.warn("No SysEx access, MTS output won't work", e);
+        return navigator.requestMIDIAccess();
+      });
+    }
+    catch (error) {
+      console.warn("MIDI access denied:", error);
+      return new Map();
+    }
     if (midiAccess.outputs.size === 0) {
       console.warn("No MIDI output devices found");
-      return;
     }
 
     return midiAccess.outputs;
@@ -238,23 +655,99 @@ interface MPEInstrumentProxy {
     midiOutput: WebMidi.MIDIOutput;
     playingNotes: Set<MPEPlayingNote>;
     availableChannels: number[];
+    expressiveChannels: Set<number>;
+    bendRange: number;
     toMidiTime(seconds: number): number;
 }
 
+const GLIDE_STEP = 0.01;  // seconds between the pitch bends of a glide, or the messages of an expression ramp
+
+// Calls send with the 7-bit values of a linear ramp from the last point to value at when,
+// every GLIDE_STEP and leaving out repeats.
+function rampExpression(last: { time: number, value: number }, when: number, value: number,
+                        send: (when: number, value: number) => void): void {
+    if (! last) {
+        send(when, Math.round(127 * value));
+        return;
+    }
+    let lastSent = Math.round(127 * last.value);
+    const steps = Math.max(1, Math.ceil((when - last.time) / GLIDE_STEP));
+    for (let i = 1; i <= steps; i++) {
+        const v = Math.round(127 * (last.value + (value - last.value) * i / steps));
+        if (v !== lastSent) {
+            send(last.time + (when - last.time) * i / steps, v);
+            lastSent = v;
+        }
+    }
+}
+
+// The MPE message setting an expression on a member channel.
+function expressionMessage(channel: number, expression: Expression, value: number): number[] {
+    return expression === 'pressure' ? [0xD0 + channel, value] : [0xB0 + channel, 74, value];
+}
+
 class MPEPlayingNote implements PlayingNote {
-    private channel: number;
+    readonly channel: number;
+    readonly startTime: number;
+    readonly velocity: number;
+    readonly pitch: number;  // at the start, as a fractional MIDI note
     private note: number;
     private instrument: MPEInstrumentProxy;
+    private stopped: boolean;
 
-    constructor(channel: number, note: number, instrument: MPEInstrumentProxy) {
+    // Where the pitch was last set, as a fractional MIDI note.
+    private lastTime: number;
+    private lastPitch: number;
+
+    private lastExpression: Map<Expression, { time: number, value: number }>;
+
+    constructor(channel: number, note: number, when: number, pitch: number, velocity: number, instrument: MPEInstrumentProxy) {
         this.channel = channel;
         this.note = note;
+        this.startTime = when;
+        this.velocity = velocity;
+        this.pitch = pitch;
+        this.lastTime = when;
+        this.lastPitch = pitch;
+        this.lastExpression = new Map();
         this.instrument = instrument;
+        this.stopped = false;
         this.instrument.playingNotes.add(this);
     }
 
+    expressTo(when: number, expression: Expression, value: number) {
+        if (this.stopped) {
+            return;
+        }
+        rampExpression(this.lastExpression.get(expression), when, value, (t: number, v: number) => {
+            this.instrument.midiOutput.send(expressionMessage(this.channel, expression, v), this.instrument.toMidiTime(t));
+        });
+        this.lastExpression.set(expression, { time: when, value: value });
+        this.instrument.expressiveChannels.add(this.channel);
+    }
+
+    glideTo(when: number, freq: number) {
+        if (this.stopped) {
+            return;
+        }
+        const pitch = frequencyToMidi(freq);
+        const steps = Math.max(1, Math.ceil((when - this.lastTime) / GLIDE_STEP));
+        for (let i = 1; i <= steps; i++) {
+            const t = this.lastTime + (when - this.lastTime) * i / steps;
+            const bend = pitchBendFor(this.lastPitch + (pitch - this.lastPitch) * i / steps, this.note, this.instrument.bendRange);
+            this.instrument.midiOutput.send([0xE0 + this.channel, bend & 0x7F, (bend >> 7) & 0x7F],
+                                            this.instrument.toMidiTime(t));
+        }
+        this.lastTime = when;
+        this.lastPitch = pitch;
+    }
+
+    // Stopping again, as the player does with a note whose channel was stolen, does nothing.
     stop(when: number) {
-        const now = window.performance.now()
+        if (this.stopped) {
+            return;
+        }
+        this.stopped = true;
         const stopTime = this.instrument.toMidiTime(when);
         this.instrument.midiOutput.send([0x90 + this.channel, this.note, 0], stopTime);
 
@@ -263,18 +756,97 @@ class MPEPlayingNote implements PlayingNote {
     }
 }
 
-const PITCH_BEND_RANGE = 2;
+export const DEFAULT_PITCH_BEND_RANGE = 2;
+
+// The pitch bend range of MPE member channels until one is set.
+export const MPE_MEMBER_BEND_RANGE = 48;
+
+export type MPEZoneSide = 'lower' | 'upper';
+
+export type MPEZone = {
+    side: MPEZoneSide,  // a lower zone is managed on channel 1, an upper zone on channel 16
+    numChannels: number,  // member channels, 1 to 15
+    bendRange: number,  // semitones
+};
+
+// What to do with a new note when every member channel is playing:
+// stop the note that started first, stop the softest note, or stop a note at the same pitch if there is one
+// (which is also reused while channels are free) and otherwise the one that started first.
+export type VoiceStealing = 'oldest' | 'quietest' | 'same-pitch';
+
+export const VOICE_STEALING: VoiceStealing[] = ['oldest', 'quietest', 'same-pitch'];
+
+// The member channels of a zone, 0-based, nearest to its manager channel first.
+export function mpeMemberChannels(zone: MPEZone): number[] {
+    return Array.from({ length: zone.numChannels }, (_, i) => zone.side === 'lower' ? i + 1 : 14 - i);
+}
+
+// The MIDI messages that configure an MPE zone and its pitch bend range.
+export function mpeConfigurationMessages(zone: MPEZone): number[][] {
+    const messages: number[][] = [];
+    const manager = zone.side === 'lower' ? 0 : 15;
+
+    // Turn off omni mode.
+    messages.push([0xB0 + manager, 0x7D, 0x00]);
+
+    messages.push([0xB0 + manager, 101, 0x00]); // RPN MSB (Set RPN address 0x0006, MPE configuration)
+    messages.push([0xB0 + manager, 100, 0x06]); // RPN LSB
+    messages.push([0xB0 + manager, 6, zone.numChannels]); // Data Entry MSB (number of member channels)
+
+    const semitones = Math.floor(zone.bendRange);
+    const cents = Math.round((zone.bendRange - semitones) * 100);
+    for (const channel of [manager, ...mpeMemberChannels(zone)]) {
+      messages.push([0xB0 + channel, 101, 0]);
+      messages.push([0xB0 + channel, 100, 0]);
+      messages.push([0xB0 + channel, 6, semitones]);
+      messages.push([0xB0 + channel, 38, cents]);  // pitch bend range LSB
+    }
+    return messages;
+}
+
+// The fractional MIDI note of a frequency.
+export function frequencyToMidi(freq: number): number {
+    return 69 + 12 * Math.log2(freq / 440);
+}
+
+// The 14-bit pitch bend that takes note to the fractional MIDI pitch, clamped to the bend range.
+export function pitchBendFor(pitch: number, note: number, bendRange: number = DEFAULT_PITCH_BEND_RANGE): number {
+    const pitchBend = Math.round((pitch - note) * 8191 / bendRange) + 8192;
+    return Math.max(0, Math.min(16383, pitchBend));
+}
+
+// Returns the nearest MIDI note and the 14-bit pitch bend that corrects it to freq.
+export function frequencyToMidiAndPitchBend(freq: number, bendRange: number = DEFAULT_PITCH_BEND_RANGE): [number, number] {
+    const midiNote = frequencyToMidi(freq);
+    const nearestMidi = Math.round(midiNote);
+
+    return [nearestMidi, pitchBendFor(midiNote, nearestMidi, bendRange)];
+}
+
+// Whether a note started at freq can glide to each of freqs without its pitch bend being clamped.
+export function glideWithinBendRange(freq: number, freqs: number[], bendRange: number = DEFAULT_PITCH_BEND_RANGE): boolean {
+    const [note] = frequencyToMidiAndPitchBend(freq, bendRange);
+    return freqs.every(f => Math.abs(frequencyToMidi(f) - note) <= bendRange);
+}
+
+const SAME_PITCH_TOLERANCE = 1e-6;  // in semitones
 
 export class MPEInstrument implements MPEInstrumentProxy {
   midiOutput: WebMidi.MIDIOutput;
   availableChannels: number[];
-  numChannels: number;
+  expressiveChannels: Set<number>;  // where pressure or timbre have been moved from their defaults
+  bendRange: number;
   playingNotes: Set<MPEPlayingNote>
+  private zone: MPEZone;
+  private stealing: VoiceStealing;
 
-  constructor(midiOutput: WebMidi.MIDIOutput, numChannels: number) {
+  constructor(midiOutput: WebMidi.MIDIOutput, zone: MPEZone, stealing: VoiceStealing) {
     this.midiOutput = midiOutput;
-    this.numChannels = numChannels;
-    this.availableChannels = Array.from({ length: numChannels }, (_, i) => i+1);
+    this.zone = zone;
+    this.bendRange = zone.bendRange;
+    this.stealing = stealing;
+    this.availableChannels = mpeMemberChannels(zone);
+    this.expressiveChannels = new Set();
     this.playingNotes = new Set();
 
     this.setupMPE();
@@ -285,29 +857,42 @@ export class MPEInstrument implements MPEInstrumentProxy {
       return;
     }
 
-    // Turn off omni mode.
-    this.midiOutput.send([0xB0, 0x7D, 0x00]);
-
-    const minChannel = 2;
-    const maxChannel = minChannel + this.numChannels - 1;
-    this.midiOutput.send([0xB0, 0x65, 0x00]); // RPN LSB (Set RPN address 0x0002)
-    this.midiOutput.send([0xB0, 0x64, 0x02]); // RPN MSB (Set RPN address 0x0002)
-    this.midiOutput.send([0xB0, 0x06, maxChannel]); // Data Entry MSB (Assign max channel to lower zone)
+    for (const message of mpeConfigurationMessages(this.zone)) {
+      this.midiOutput.send(message);
+    }
+  }
 
-    for (let channel = 0; channel < this.numChannels; channel++) {
-      this.midiOutput.send([0xB0 + channel, 100, 0]);
-      this.midiOutput.send([0xB0 + channel, 101, 0]);
-      this.midiOutput.send([0xB0 + channel, 6, PITCH_BEND_RANGE]);
-      this.midiOutput.send([0xB0 + channel, 38, 0]);  // pitch bend range LSB
+  // A playing note whose channel the new note should take, or null to use a free channel.
+  private noteToSteal(pitch: number): MPEPlayingNote {
+    const notes = [...this.playingNotes].sort((a, b) => a.startTime - b.startTime);
+    if (this.stealing === 'same-pitch') {
+      const samePitch = notes.find(n => Math.abs(n.pitch - pitch) < SAME_PITCH_TOLERANCE);
+      if (samePitch) {
+        return samePitch;
+      }
     }
+    if (this.availableChannels.length > 0 || notes.length === 0) {
+      return null;
+    }
+    if (this.stealing === 'quietest') {
+      return notes.reduce((quietest, n) => n.velocity < quietest.velocity ? n : quietest);
+    }
+    return notes[0];
   }
 
   startNote(when: number, freq: number, velocity: number): MPEPlayingNote {
     if (!this.midiOutput)
         return;
 
+    const pitch = frequencyToMidi(freq);
+    const stolen = this.noteToSteal(pitch);
+    if (stolen) {
+      stolen.stop(when);
+      this.availableChannels.splice(this.availableChannels.indexOf(stolen.channel), 1);
+      this.availableChannels.unshift(stolen.channel);
+    }
     if (this.availableChannels.length === 0) {
-      console.log("Dropped note, too many playing notes");
+      console.log("Dropped note, no MPE member channels");
       return;
     }
 
@@ -315,17 +900,24 @@ export class MPEInstrument implements MPEInstrumentProxy {
 
     const channel = this.availableChannels.splice(0, 1)[0];
 
-    const [note, pitchBend] = this.frequencyToMidiAndPitchBend(freq);
-    this.midiOutput.send([0x90 + channel, note, Math.floor(127*velocity)], whenM);
+    if (this.expressiveChannels.delete(channel)) {
+      this.midiOutput.send(expressionMessage(channel, 'pressure', 0), whenM);
+      this.midiOutput.send(expressionMessage(channel, 'timbre', 64), whenM);
+    }
+
+    const [note, pitchBend] = frequencyToMidiAndPitchBend(freq, this.bendRange);
     this.midiOutput.send([0xE0 + channel, pitchBend & 0x7F, (pitchBend >> 7) & 0x7F], whenM);
+    this.midiOutput.send([0x90 + channel, note, Math.floor(127*velocity)], whenM);
 
-    const playingNote = new MPEPlayingNote(channel, note, this);
+    const playingNote = new MPEPlayingNote(channel, note, when, pitch, velocity, this);
     return playingNote;
   }
 
   playNote(when: number, duration: number, freq: number, velocity: number): void {
     const note = this.startNote(when, freq, velocity);
-    note.stop(when + duration);
+    if (note) {
+      note.stop(when + duration);
+    }
   }
 
   stopAllNotes(when: number) {
@@ -338,12 +930,161 @@ export class MPEInstrument implements MPEInstrumentProxy {
   toMidiTime(when: number): number {
       return window.performance.now() - 1000*Tone.now() + 1000*when;
   }
+}
 
-  private frequencyToMidiAndPitchBend(freq: number): [number, number] {
-    const midiNote = 69 + 12 * Math.log2(freq / 440);
-    const nearestMidi = Math.round(midiNote);
-    const pitchBend = Math.round((midiNote - nearestMidi) * 8191 / PITCH_BEND_RANGE) + 8192;
+// The MTS frequency data for freq: the semitone below it and the 14-bit fraction of a semitone above that.
+export function mtsFrequencyData(freq: number): number[] {
+    const pitch = frequencyToMidi(freq);
+    if (pitch < 0) {
+        return [0, 0, 0];
+    }
+    let semitone = Math.floor(pitch);
+    let fraction = Math.round((pitch - semitone) * 16384);
+    if (fraction === 16384) {
+        semitone++;
+        fraction = 0;
+    }
+    if (semitone > 127 || (semitone === 127 && fraction > 16382)) {
+        return [127, 127, 126];  // 7F 7F 7F means "no change"
+    }
+    return [semitone, (fraction >> 7) & 0x7F, fraction & 0x7F];
+}
+
+// A real-time MTS single note tuning change, retuning key to freq in tuning program 0.
+export function mtsNoteTuningMessage(key: number, freq: number): number[] {
+    return [0xF0, 0x7F, 0x7F, 0x08, 0x02, 0x00, 0x01, key, ...mtsFrequencyData(freq), 0xF7];
+}
+
+const KEY_RELEASE_TIME = 2;  // seconds after a note off that a key is still assumed to be sounding
+
+class MTSPlayingNote implements PlayingNote {
+    private key: number;
+    private instrument: MTSInstrument;
+
+    // Where the pitch was last set.
+    private lastTime: number;
+    private lastFreq: number;
+
+    private lastPressure: { time: number, value: number };
+    private stopped: boolean;
+
+    constructor(key: number, when: number, freq: number, instrument: MTSInstrument) {
+        this.key = key;
+        this.lastTime = when;
+        this.lastFreq = freq;
+        this.lastPressure = null;
+        this.stopped = false;
+        this.instrument = instrument;
+        this.instrument.playingNotes.add(this);
+    }
+
+    // Pressure is sent as polyphonic aftertouch. Timbre can't be, as every note shares the channel.
+    expressTo(when: number, expression: Expression, value: number) {
+        if (expression !== 'pressure' || this.stopped) {
+            return;
+        }
+        rampExpression(this.lastPressure, when, value, (t: number, v: number) => {
+            this.instrument.midiOutput.send([0xA0, this.key, v], this.instrument.toMidiTime(t));
+        });
+        this.lastPressure = { time: when, value: value };
+    }
+
+    glideTo(when: number, freq: number) {
+        if (this.stopped) {
+            return;
+        }
+        const steps = Math.max(1, Math.ceil((when - this.lastTime) / GLIDE_STEP));
+        for (let i = 1; i <= steps; i++) {
+            const t = this.lastTime + (when - this.lastTime) * i / steps;
+            const f = this.lastFreq * Math.pow(freq / this.lastFreq, i / steps);
+            this.instrument.midiOutput.send(mtsNoteTuningMessage(this.key, f), this.instrument.toMidiTime(t));
+        }
+        this.lastTime = when;
+        this.lastFreq = freq;
+    }
+
+    stop(when: number) {
+        if (this.stopped) {
+            return;
+        }
+        this.stopped = true;
+        this.instrument.midiOutput.send([0x80, this.key, 0], this.instrument.toMidiTime(when));
+        if (this.lastPressure) {
+            this.instrument.midiOutput.send([0xA0, this.key, 0], this.instrument.toMidiTime(when));
+        }
+        this.instrument.releaseKey(this.key, when);
+        this.instrument.playingNotes.delete(this);
+    }
+}
+
+// Plays every note on channel 1, retuning a free key to the note's frequency with MIDI Tuning Standard
+// just before its note on, so that up to 128 notes can sound at once on synths that support MTS.
+export class MTSInstrument implements Instrument {
+  midiOutput: WebMidi.MIDIOutput;
+  playingNotes: Set<MTSPlayingNote>;
+  private releaseTimes: number[];  // of each key's last note, null while it is playing
+
+  constructor(midiOutput: WebMidi.MIDIOutput) {
+    this.midiOutput = midiOutput;
+    this.playingNotes = new Set();
+    this.releaseTimes = Array(128).fill(-Infinity);
+  }
+
+  // The free key nearest to the pitch, preferring keys that have finished their release.
+  private allocateKey(pitch: number, when: number): number {
+    let best: number = null;
+    let bestCost = Infinity;
+    for (let key = 0; key < 128; key++) {
+      const released = this.releaseTimes[key];
+      if (released === null) {
+        continue;
+      }
+      const cost = Math.abs(key - pitch) + (when - released < KEY_RELEASE_TIME ? 128 : 0);
+      if (cost < bestCost) {
+        best = key;
+        bestCost = cost;
+      }
+    }
+    return best;
+  }
+
+  releaseKey(key: number, when: number): void {
+    this.releaseTimes[key] = when;
+  }
 
-    return [nearestMidi, pitchBend];
+  startNote(when: number, freq: number, velocity: number): MTSPlayingNote {
+    if (!this.midiOutput)
+        return;
+
+    const key = this.allocateKey(frequencyToMidi(freq), when);
+    if (key === null) {
+      console.log("Dropped note, too many playing notes");
+      return;
+    }
+    this.releaseTimes[key] = null;
+
+    const whenM = this.toMidiTime(when);
+    this.midiOutput.send(mtsNoteTuningMessage(key, freq), whenM);
+    this.midiOutput.send([0x90, key, Math.max(1, Math.floor(127*velocity))], whenM);
+
+    return new MTSPlayingNote(key, when, freq, this);
+  }
+
+  playNote(when: number, duration: number, freq: number, velocity: number): void {
+    const note = this.startNote(when, freq, velocity);
+    if (note) {
+      note.stop(when + duration);
+    }
+  }
+
+  stopAllNotes(when: number) {
+      const playingNotes = cloneSet(this.playingNotes);
+      for (const n of playingNotes) {
+          n.stop(when);
+      }
+  }
+
+  toMidiTime(when: number): number {
+      return window.performance.now() - 1000*Tone.now() + 1000*when;
   }
 }
@@ -0,0 +1,126 @@
+import {ExactNumberType, ExactNumber as N} from "exactnumber";
+import * as FileType from "./FileType";
+
+const WHOLE_NOTE = 16;  // time units, four to the quarter note
+
+// beats beats of 1/unit of a whole note to the bar, from time until the next change.
+// The first change is always at time 0, and each change starts a new bar.
+export type MeterChange = {
+    time: ExactNumberType,
+    beats: number,
+    unit: number,
+};
+
+// A beat in view: beat 1 is the bar line. Bars count from 1.
+export type Beat = {
+    time: number,
+    bar: number,
+    beat: number,
+};
+
+export class MeterMap {
+    private changes: MeterChange[];
+
+    // The number of whole bars before each change, a bar cut short by a change counting as one.
+    private firstBars: number[];
+
+    constructor(changes: MeterChange[]) {
+        this.changes = [...changes].sort((a, b) => a.time.cmp(b.time));
+        this.update();
+    }
+
+    static constant(beats: number, unit: number): MeterMap {
+        return new MeterMap([{ time: N(0), beats: beats, unit: unit }]);
+    }
+
+    static beatLength(change: MeterChange): ExactNumberType {
+        return N(WHOLE_NOTE, change.unit);
+    }
+
+    static barLength(change: MeterChange): ExactNumberType {
+        return MeterMap.beatLength(change).mul(change.beats).normalize();
+    }
+
+    getChanges(): MeterChange[] {
+        return this.changes;
+    }
+
+    // The change in effect at time, or the first if time is before it.
+    changeAt(time: ExactNumberType): MeterChange {
+        let result = this.changes[0];
+        for (const c of this.changes) {
+            if (c.time.lte(time)) {
+                result = c;
+            }
+        }
+        return result;
+    }
+
+    // Adds a change, replacing any change at the same time.
+    setChange(change: MeterChange): void {
+        if (change.time.isNegative()) {
+            return;
+        }
+        this.changes = this.changes.filter(c => ! c.time.eq(change.time));
+        this.changes.push(change);
+        this.changes.sort((a, b) => a.time.cmp(b.time));
+        this.update();
+    }
+
+    // The first change can't be removed.
+    removeChange(change: MeterChange): void {
+        if (change === this.changes[0]) {
+            return;
+        }
+        this.changes = this.changes.filter(c => c !== change);
+        this.update();
+    }
+
+    // The time of the bar line at or before time.
+    barStart(time: ExactNumberType): ExactNumberType {
+        const change = this.changeAt(time);
+        const barLength = MeterMap.barLength(change);
+        const bars = N.max(time.sub(change.time), N(0)).div(barLength).floor();
+        return change.time.add(bars.mul(barLength)).normalize();
+    }
+
+    // The beats from time from to time to, leaving out beats closer together than minSpacing time units,
+    // then bars, so that there are never too many to draw.
+    beatsIn(from: number, to: number, minSpacing: number): Beat[] {
+        const result: Beat[] = [];
+        this.changes.forEach((change, i) => {
+            const start = change.time.toNumber();
+            const end = i + 1 < this.changes.length ? Math.min(to, this.changes[i + 1].time.toNumber()) : to;
+            const beat = MeterMap.beatLength(change).toNumber();
+            let stride = 1;  // in beats
+            if (beat < minSpacing) {
+                stride = change.beats * Math.pow(2, Math.max(0, Math.ceil(Math.log2(minSpacing / (beat * change.beats)))));
+            }
+            for (let k = Math.max(0, Math.ceil((from - start) / (beat * stride))) * stride; start + k * beat < end; k += stride) {
+                result.push({
+                    time: start + k * beat,
+                    bar: this.firstBars[i] + Math.floor(k / change.beats) + 1,
+                    beat: k % change.beats + 1,
+                });
+            }
+        });
+        return result;
+    }
+
+    serialize(): FileType.MeterChange[] {
+        return this.changes.map(c => ({ time: c.time.toString(), beats: c.beats, unit: c.unit }));
+    }
+
+    static deserialize(changes: FileType.MeterChange[]): MeterMap {
+        return new MeterMap(changes.map(c => ({ time: N(c.time), beats: c.beats, unit: c.unit })));
+    }
+
+    private update(): void {
+        this.firstBars = [0];
+        for (let i = 0; i < this.changes.length - 1; i++) {
+            const length = this.changes[i + 1].time.sub(this.changes[i].time);
+            const bars = length.div(MeterMap.barLength(this.changes[i])).ceil().toNumber();
+            this.firstBars.push(this.firstBars[i] + bars);
+        }
+    }
+}
@@ -0,0 +1,343 @@
+import { frequencyToMidi, frequencyToMidiAndPitchBend, pitchBendFor, glideWithinBendRange, mpeConfigurationMessages, mpeMemberChannels, MPEZone, DEFAULT_PITCH_BEND_RANGE } from "./Instrument";
+import * as FileType from "./FileType";
+import * as Utils from "./Utils";
+import { TempoMap } from "./TempoMap";
+import { MidiChannelState } from "./MidiInput";
+import { ExactNumber as N, ExactNumberType } from "exactnumber";
+
+const TICKS_PER_QUARTER = 480;
+const UNITS_PER_QUARTER = 4;  // the tempo box shows tempo*15, so four time units make a beat
+const RAMP_STEP = 1;  // time units between the tempo events approximating an accelerando or ritardando
+const GLIDE_TICKS = 20;  // ticks between the pitch bends of a glide
+
+export type MidiNote = {
+    startTime: number,  // in score time units
+    endTime: number,
+    freq: number,
+    velocity: number,   // [0,1]
+    glide: { time: number, freq: number }[],  // pitches glided to, moving evenly in log frequency
+};
+
+type TrackEvent = { tick: number, order: number, data: number[] };
+
+function variableLength(n: number): number[] {
+    const bytes = [n & 0x7F];
+    n >>= 7;
+    while (n > 0) {
+        bytes.unshift((n & 0x7F) | 0x80);
+        n >>= 7;
+    }
+    return bytes;
+}
+
+function uint32(n: number): number[] {
+    return [(n >> 24) & 0xFF, (n >> 16) & 0xFF, (n >> 8) & 0xFF, n & 0xFF];
+}
+
+function uint16(n: number): number[] {
+    return [(n >> 8) & 0xFF, n & 0xFF];
+}
+
+function ascii(s: string): number[] {
+    return Array.from(s, c => c.charCodeAt(0));
+}
+
+function toTicks(time: number): number {
+    return Math.max(0, Math.round(time * TICKS_PER_QUARTER / UNITS_PER_QUARTER));
+}
+
+function tempoEvent(tempo: number): number[] {
+    const microsPerQuarter = Math.round(1e6 * UNITS_PER_QUARTER / tempo);
+    return [0xFF, 0x51, 0x03, (microsPerQuarter >> 16) & 0xFF, (microsPerQuarter >> 8) & 0xFF, microsPerQuarter & 0xFF];
+}
+
+// Tempo ramps become steps of RAMP_STEP, each at the average tempo of its span so that timing is kept.
+function tempoEvents(tempoMap: TempoMap): TrackEvent[] {
+    const events: TrackEvent[] = [];
+    const points = tempoMap.getPoints();
+    points.forEach((point, i) => {
+        const start = point.time.toNumber();
+        if (point.curve === 'step' || i === points.length - 1) {
+            events.push({ tick: toTicks(start), order: 0, data: tempoEvent(point.tempo.toNumber()) });
+            return;
+        }
+        const end = points[i+1].time.toNumber();
+        for (let t = start; t < end; t += RAMP_STEP) {
+            const next = Math.min(t + RAMP_STEP, end);
+            const averageTempo = (next - t) / (tempoMap.toSeconds(next) - tempoMap.toSeconds(t));
+            events.push({ tick: toTicks(t), order: 0, data: tempoEvent(averageTempo) });
+        }
+    });
+    return events;
+}
+
+// Writes a format 0 Standard MIDI File laid out as a lower MPE zone, one member channel per sounding note.
+// dropped counts the notes left out for want of a free channel, and clamped the notes that glide further
+// than the bend range, and so stop short.
+export function writeMidiFile(notes: MidiNote[], tempoMap: TempoMap, numChannels: number)
+        : { data: Uint8Array, dropped: number, clamped: number } {
+    const events: TrackEvent[] = tempoEvents(tempoMap);
+    const zone: MPEZone = { side: 'lower', numChannels: numChannels, bendRange: DEFAULT_PITCH_BEND_RANGE };
+
+    for (const message of mpeConfigurationMessages(zone)) {
+        events.push({ tick: 0, order: 0, data: message });
+    }
+
+    const sorted = [...notes].sort((a, b) => a.startTime - b.startTime);
+    const availableChannels = mpeMemberChannels(zone);
+    const sounding: { endTick: number, channel: number }[] = [];
+    let dropped = 0;
+    let clamped = 0;
+
+    for (const note of sorted) {
+        const startTick = toTicks(note.startTime);
+        const endTick = Math.max(startTick + 1, toTicks(note.endTime));
+
+        sounding.sort((a, b) => a.endTick - b.endTick);
+        while (sounding.length > 0 && sounding[0].endTick <= startTick) {
+            availableChannels.push(sounding.shift().channel);
+        }
+        if (availableChannels.length === 0) {
+            dropped++;
+            continue;
+        }
+        const channel = availableChannels.splice(0, 1)[0];
+        sounding.push({ endTick: endTick, channel: channel });
+
+        const [midiNote, pitchBend] = frequencyToMidiAndPitchBend(note.freq);
+        const velocity = Math.max(1, Math.floor(127*note.velocity));
+        // Note offs sort before note ons at the same tick so a freed channel can be reused cleanly.
+        events.push({ tick: startTick, order: 2, data: [0xE0 + channel, pitchBend & 0x7F, (pitchBend >> 7) & 0x7F] });
+        events.push({ tick: startTick, order: 3, data: [0x90 + channel, midiNote, velocity] });
+        events.push({ tick: endTick, order: 1, data: [0x80 + channel, midiNote, 0] });
+
+        if (! glideWithinBendRange(note.freq, note.glide.map(point => point.freq))) {
+            clamped++;
+        }
+        let [lastTick, lastPitch] = [startTick, frequencyToMidi(note.freq)];
+        for (const point of note.glide) {
+            const tick = toTicks(point.time);
+            const pitch = frequencyToMidi(point.freq);
+            const steps = Math.max(1, Math.ceil((tick - lastTick) / GLIDE_TICKS));
+            for (let i = 1; i <= steps; i++) {
+                const t = Math.round(lastTick + (tick - lastTick) * i / steps);
+                if (t >= endTick) {
+                    break;  // the channel may be reused from endTick on
+                }
+                const bend = pitchBendFor(lastPitch + (pitch - lastPitch) * i / steps, midiNote);
+                events.push({ tick: t, order: 4, data: [0xE0 + channel, bend & 0x7F, (bend >> 7) & 0x7F] });
+            }
+            [lastTick, lastPitch] = [tick, pitch];
+        }
+    }
+
+    events.sort((a, b) => a.tick - b.tick || a.order - b.order);
+
+    const track: number[] = [];
+    let lastTick = 0;
+    for (const event of events) {
+        track.push(...variableLength(event.tick - lastTick), ...event.data);
+        lastTick = event.tick;
+    }
+    track.push(0x00, 0xFF, 0x2F, 0x00);  // end of track
+
+    const data = new Uint8Array([
+        ...ascii("MThd"), ...uint32(6), ...uint16(0), ...uint16(1), ...uint16(TICKS_PER_QUARTER),
+        ...ascii("MTrk"), ...uint32(track.length), ...track,
+    ]);
+    return { data: data, dropped: dropped, clamped: clamped };
+}
+
+type ChannelEvent = { tick: number, status: number, data1: number, data2: number };
+
+class ByteReader {
+    private bytes: Uint8Array;
+    pos: number;
+
+    constructor(bytes: Uint8Array, pos: number) {
+        this.bytes = bytes;
+        this.pos = pos;
+    }
+
+    byte(): number {
+        if (this.pos >= this.bytes.length) {
+            throw Error("MIDI import: unexpected end of file");
+        }
+        return this.bytes[this.pos++];
+    }
+
+    uint(size: number): number {
+        let n = 0;
+        for (let i = 0; i < size; i++) {
+            n = n * 256 + this.byte();
+        }
+        return n;
+    }
+
+    variableLength(): number {
+        let n = 0;
+        let b: number;
+        do {
+            b = this.byte();
+            n = n * 128 + (b & 0x7F);
+        } while (b & 0x80);
+        return n;
+    }
+
+    ascii(size: number): string {
+        let s = "";
+        for (let i = 0; i < size; i++) {
+            s += String.fromCharCode(this.byte());
+        }
+        return s;
+    }
+}
+
+// The channel events of a track, and the tick at which it ends.
+function readTrack(reader: ByteReader, end: number): { events: ChannelEvent[], endTick: number } {
+    const events: ChannelEvent[] = [];
+    let tick = 0;
+    let runningStatus = 0;
+
+    while (reader.pos < end) {
+        tick += reader.variableLength();
+        let status = reader.byte();
+
+        if (status === 0xFF || status === 0xF0 || status === 0xF7) {  // meta event or sysex
+            if (status === 0xFF) {
+                reader.byte();  // meta type
+            }
+            const length = reader.variableLength();
+            reader.pos += length;
+            continue;
+        }
+
+        let data1: number;
+        if (status & 0x80) {
+            runningStatus = status;
+            data1 = reader.byte();
+        }
+        else {
+            if (runningStatus === 0) {
+                throw Error("MIDI import: data byte without a status byte");
+            }
+            data1 = status;
+            status = runningStatus;
+        }
+        const type = status & 0xF0;
+        const data2 = (type === 0xC0 || type === 0xD0) ? 0 : reader.byte();
+        events.push({ tick: tick, status: status, data1: data1, data2: data2 });
+    }
+    return { events: events, endTick: tick };
+}
+
+// The channel events of every track, merged in time order, and the tick at which the last track ends.
+function readEvents(bytes: Uint8Array): { division: number, events: ChannelEvent[], endTick: number } {
+    const reader = new ByteReader(bytes, 0);
+    if (reader.ascii(4) !== "MThd") {
+        throw Error("MIDI import: not a Standard MIDI File");
+    }
+    const headerLength = reader.uint(4);
+    const headerEnd = reader.pos + headerLength;
+    reader.uint(2);  // format
+    const numTracks = reader.uint(2);
+    const division = reader.uint(2);
+    if (division & 0x8000) {
+        throw Error("MIDI import: SMPTE time division is not supported");
+    }
+    reader.pos = headerEnd;
+
+    let events: ChannelEvent[] = [];
+    let endTick = 0;
+    for (let i = 0; i < numTracks; i++) {
+        const chunkType = reader.ascii(4);
+        const length = reader.uint(4);
+        const end = reader.pos + length;
+        if (chunkType === "MTrk") {
+            const track = readTrack(reader, end);
+            events = events.concat(track.events);
+            endTick = Math.max(endTick, track.endTick);
+        }
+        reader.pos = end;
+    }
+    events.sort((a, b) => a.tick - b.tick);
+    return { division: division, events: events, endTick: endTick };
+}
+
+type ImportingNote = { startTick: number, channel: number, note: number, bend: number, velocity: number };
+
+// Reads the notes of a Standard MIDI File, including per-channel pitch bend as used by MPE.
+// Each pitch becomes the simplest ratio of fundamentalAt(the note's start time) within toleranceCents whose terms
+// are at most maxTerm; notes with no such ratio get the nearest one and are counted in unmatched.
+// The notes are put on the given track. A note that ends where it starts is given one tick, and one still sounding
+// when the file ends is stopped there.
+export function importMidiFile(data: ArrayBuffer, fundamentalAt: (time: number) => ExactNumberType,
+                               toleranceCents: number, maxTerm: number,
+                               track: number)
+        : { notes: FileType.Note[], unmatched: number } {
+    const { division, events, endTick } = readEvents(new Uint8Array(data));
+
+    const channels = new MidiChannelState();
+    const playing: ImportingNote[] = [];
+    const notes: FileType.Note[] = [];
+    let unmatched = 0;
+
+    const toPitch = (freq: number, fundamental: ExactNumberType): ExactNumberType => {
+        const ratio = freq / fundamental.toNumber();
+        const spread = Math.pow(2, toleranceCents / 1200);
+        let fraction = Utils.simplestRatioBetween(ratio / spread, ratio * spread, maxTerm);
+        if (fraction === null) {
+            unmatched++;
+            fraction = Utils.nearestRatio(ratio, maxTerm);
+        }
+        return fundamental.mul(N(fraction[0], fraction[1])).normalize();
+    };
+
+    const finish = (n: ImportingNote, stopTick: number) => {
+        const midiNote = channels.midiNote(n.channel, n.note, n.bend);
+        const startTime = N(n.startTick * UNITS_PER_QUARTER, division).normalize();
+        notes.push({
+            startTime: startTime.toString(),
+            endTime: N(Math.max(stopTick, n.startTick + 1) * UNITS_PER_QUARTER, division).normalize().toString(),
+            pitch: toPitch(440 * Math.pow(2, (midiNote - 69) / 12), fundamentalAt(startTime.toNumber())).toString(),
+            velocity: n.velocity,
+            glide: [],
+            pressure: [],
+            timbre: [],
+            track: track,
+        });
+    };
+
+    for (const event of events) {
+        const type = event.status & 0xF0;
+        const channel = event.status & 0x0F;
+
+        if (type === 0x80 || (type === 0x90 && event.data2 === 0)) {
+            const i = playing.findIndex(n => n.channel === channel && n.note === event.data1);
+            if (i >= 0) {
+                finish(playing.splice(i, 1)[0], event.tick);
+            }
+        }
+        else if (type === 0x90) {
+            playing.push({ startTick: event.tick, channel: channel, note: event.data1,
+                           bend: channels.bend(channel), velocity: event.data2 / 127 });
+        }
+        else if (type === 0xE0) {
+            channels.update(event.status, event.data1, event.data2);
+            // MPE senders may bend just after the note on, at the same instant.
+            for (const n of playing) {
+                if (n.channel === channel && n.startTick === event.tick) {
+                    n.bend = channels.bend(channel);
+                }
+            }
+        }
+        else if (type === 0xB0) {
+            channels.update(event.status, event.data1, event.data2);
+        }
+    }
+    for (const n of playing) {
+        finish(n, endTick);
+    }
+
+    return { notes: notes, unmatched: unmatched };
+}
@@ -0,0 +1,149 @@
+import * as Tone from "tone";
+import { mpeMemberChannels, DEFAULT_PITCH_BEND_RANGE, MPE_MEMBER_BEND_RANGE } from "./Instrument";
+
+export async function initializeMidiInputs(): Promise<ReadonlyMap<string, WebMidi.MIDIInput>> {
+    if (!navigator.requestMIDIAccess) {
+      console.warn("Web MIDI API not supported in this browser");
+      return new Map();
+    }
+
+    let midiAccess: WebMidi.MIDIAccess;
+    try {
+      midiAccess = await navigator.requestMIDIAccess();
+    }
+    catch (error) {
+      console.warn("MIDI access denied:", error);
+      return new Map();
+    }
+    if (midiAccess.inputs.size === 0) {
+      console.warn("No MIDI input devices found");
+    }
+
+    return midiAccess.inputs;
+}
+
+// The pitch bend and pitch bend range of each channel of a MIDI stream.
+// Ranges are set by RPN 0 and start at 2 semitones; an MPE configuration message (RPN 6) on a manager channel
+// sets its zone's member channels to 48 semitones and the manager channel to 2, as MPE specifies.
+export class MidiChannelState {
+    private bends: number[] = Array(16).fill(8192);
+    private bendRanges: number[] = Array(16).fill(DEFAULT_PITCH_BEND_RANGE);
+    private rpns: number[] = Array(16).fill(0x3FFF);
+
+    // Follows a pitch bend or control change message; other messages are ignored.
+    update(status: number, data1: number, data2: number): void {
+        const type = status & 0xF0;
+        const channel = status & 0x0F;
+
+        if (type === 0xE0) {
+            this.bends[channel] = data1 + (data2 << 7);
+        }
+        else if (type === 0xB0) {
+            if (data1 === 101) {
+                this.rpns[channel] = (data2 << 7) | (this.rpns[channel] & 0x7F);
+            }
+            else if (data1 === 100) {
+                this.rpns[channel] = (this.rpns[channel] & 0x3F80) | data2;
+            }
+            else if (data1 === 6 && this.rpns[channel] === 0) {
+                this.bendRanges[channel] = data2;
+            }
+            else if (data1 === 38 && this.rpns[channel] === 0) {
+                this.bendRanges[channel] = Math.floor(this.bendRanges[channel]) + data2 / 100;
+            }
+            else if (data1 === 6 && this.rpns[channel] === 6 && (channel === 0 || channel === 15)) {
+                const zone = { side: channel === 0 ? 'lower' : 'upper', numChannels: Math.min(data2, 15),
+                               bendRange: MPE_MEMBER_BEND_RANGE } as const;
+                for (const member of mpeMemberChannels(zone)) {
+                    this.bendRanges[member] = MPE_MEMBER_BEND_RANGE;
+                }
+                this.bendRanges[channel] = DEFAULT_PITCH_BEND_RANGE;
+            }
+        }
+    }
+
+    bend(channel: number): number {
+        return this.bends[channel];
+    }
+
+    // The fractional MIDI note of note on channel, bent by bend (by default the channel's current pitch bend).
+    midiNote(channel: number, note: number, bend: number = this.bends[channel]): number {
+        return note + (bend - 8192) * this.bendRanges[channel] / 8191;
+    }
+}
+
+export interface MidiInputHandler {
+    // key identifies the note until its noteOff. Times are in Tone.now() seconds.
+    noteOn(key: number, freq: number, velocity: number, when: number): void;
+    pitchChange(key: number, freq: number, when: number): void;
+    noteOff(key: number, when: number): void;
+}
+
+// Turns the messages of a MIDI input into notes with exact frequencies, following
+// per-channel pitch bend so that MPE controllers are heard as played.
+export class MidiInputListener {
+    private input: WebMidi.MIDIInput;
+    private handler: MidiInputHandler;
+    private channels: MidiChannelState;
+    private sounding: Set<number>;
+    private listener: (e: WebMidi.MIDIMessageEvent) => void;
+
+    constructor(input: WebMidi.MIDIInput, handler: MidiInputHandler) {
+        this.input = input;
+        this.handler = handler;
+        this.channels = new MidiChannelState();
+        this.sounding = new Set();
+
+        this.listener = (e: WebMidi.MIDIMessageEvent) => this.onMessage(e.data, this.toToneTime(e.timeStamp));
+        this.input.addEventListener('midimessage', this.listener);
+    }
+
+    close(): void {
+        this.input.removeEventListener('midimessage', this.listener);
+        const now = Tone.now();
+        for (const key of this.sounding) {
+            this.handler.noteOff(key, now);
+        }
+        this.sounding.clear();
+    }
+
+    private toToneTime(timeStamp: number): number {
+        return Tone.now() - (window.performance.now() - timeStamp) / 1000;
+    }
+
+    private freq(channel: number, note: number): number {
+        const midiNote = this.channels.midiNote(channel, note);
+        return 440 * Math.pow(2, (midiNote - 69) / 12);
+    }
+
+    private onMessage(data: Uint8Array, when: number): void {
+        const type = data[0] & 0xF0;
+        const channel = data[0] & 0x0F;
+
+        if (type === 0x80 || (type === 0x90 && data[2] === 0)) {
+            const key = channel * 128 + data[1];
+            if (this.sounding.delete(key)) {
+                this.handler.noteOff(key, when);
+            }
+        }
+        else if (type === 0x90) {
+            const key = channel * 128 + data[1];
+            if (this.sounding.has(key)) {
+                this.handler.noteOff(key, when);
+            }
+            this.sounding.add(key);
+            this.handler.noteOn(key, this.freq(channel, data[1]), data[2] / 127, when);
+        }
+        else if (type === 0xE0) {
+            this.channels.update(data[0], data[1], data[2]);
+            for (const key of this.sounding) {
+                if (Math.floor(key / 128) === channel) {
+                    this.handler.pitchChange(key, this.freq(channel, key % 128), when);
+                }
+            }
+        }
+        else if (type === 0xB0) {
+            this.channels.update(data[0], data[1], data[2]);
+        }
+    }
+}
@@ -1,87 +1,443 @@
 import p5 from "p5";
-import {QuantizationGrid} from "./QuantizationGrid";
-import {Viewport, LogViewport} from "./Viewport";
-import {ToneSynth, MPEInstrument, Instrument, PlayingNote} from "./Instrument";
-import {Scheduler} from "./Scheduler";
+import {QuantizationGrid, FundamentalChange} from "./QuantizationGrid";
+import {PitchGrid, HarmonicGrid, EDOGrid, ScalaGrid, PrimeLimitGrid, RatioGrid, TenneyGrid, pitchGridFromFile} from "./PitchGrid";
+import {Viewport, LogViewport, PITCH_AXES, makeViewport, viewportFromFile} from "./Viewport";
+import {ToneSynth, SampleInstrument, MPEInstrument, glideWithinBendRange, Instrument, PlayingNote, Expression, EXPRESSIONS} from "./Instrument";
+import {Scheduler, EventScheduler, OfflineScheduler} from "./Scheduler";
+import {History} from "./History";
+import {TempoMap, TempoPoint, TEMPO_CURVES} from "./TempoMap";
+import {MeterMap, MeterChange} from "./Meter";
 import * as Commands from "./Commands";
 import * as Utils from "./Utils";
 import * as FileType from "./FileType";
+import * as MidiFile from "./MidiFile";
+import * as WavFile from "./WavFile";
+import * as ScalaFile from "./ScalaFile";
+import {PresetLibrary} from "./Presets";
+import {EffectsChain, effectsTail} from "./Effects";
+import {makeButton, makeTable} from "./Controls";
+import {MidiInputListener} from "./MidiInput";
 import {ExactNumber as N, ExactNumberType} from "exactnumber";
 import * as Tone from "tone";
 
 const NOTE_HEIGHT = 10;
+const HISTORY_LIMIT = 200;
+const MIDI_EXPORT_CHANNELS = 15;
+const MIDI_IMPORT_MAX_TERM = 128;
+const RULER_HEIGHT = 16;
+const RULER_LABEL_SPACING = 40;  // pixels between bar or beat labels on the ruler, at the least
+const TEMPO_LANE_HEIGHT = 40;
+const EXPRESSION_LANE_HEIGHT = 40;  // each of the pressure and timbre lanes at the bottom
+const TEMPO_DISPLAY_SCALE = 15;  // tempos are shown in beats per minute, four time units to the beat
+const LOOP_LOOKAHEAD = 1;  // seconds before the end of a pass that the next pass is scheduled, at most
+const CONTROL_CHUNK = 0.1;  // seconds of a glide or expression curve handed to an instrument at a time
+const RENDER_TAIL = 0.5;  // seconds rendered after the last note has been released
+const BEND_SETTLE_TIME = 0.05;  // seconds after a recorded note on during which pitch bends move its start pitch
+const TRACK_COLOURS = [FileType.DEFAULT_TRACK_COLOUR, "#ff6666", "#66cc66", "#cc66ff", "#ffcc00", "#ff9933"];  // of new tracks, in turn
+const WEB_SYNTH_NAME = "Web Synth";
+
+// A pitch the note glides to, at a position in (0,1] along its length.
+type GlidePoint = {
+  position: ExactNumberType,
+  pitch: ExactNumberType,
+};
+
+// An expression value in [0,1] reached at a position in [0,1] along the note.
+type ExpressionPoint = {
+  position: ExactNumberType,
+  value: number,
+};
 
 class Note {
-  startTime: number;
-  endTime: number;
-  pitch: ExactNumberType;
+  startTime: ExactNumberType;
+  endTime: ExactNumberType;
+  pitch: ExactNumberType;  // at the start of the note
   velocity: number;  // [0,1]
+  glide: GlidePoint[];  // sorted by position, empty for a steady pitch
+  pressure: ExpressionPoint[];  // sorted by position, empty to leave the expression alone
+  timbre: ExpressionPoint[];
+  track: number;  // index into the view's tracks
 
-  constructor(startTime: number, endTime: number, pitch: ExactNumberType, velocity: number) {
+  constructor(startTime: ExactNumberType, endTime: ExactNumberType, pitch: ExactNumberType, velocity: number, glide: GlidePoint[] = [],
+              pressure: ExpressionPoint[] = [], timbre: ExpressionPoint[] = [], track: number = 0) {
       this.startTime = startTime;
       this.endTime = endTime;
       this.pitch = pitch;
       this.velocity = velocity;
+      this.glide = glide;
+      this.pressure = pressure;
+      this.timbre = timbre;
+      this.track = track;
   }
 
   clone(): Note {
-      return new Note(this.startTime, this.endTime, this.pitch, this.velocity);
+      return new Note(this.startTime, this.endTime, this.pitch, this.velocity, [...this.glide], [...this.pressure], [...this.timbre],
+                      this.track);
+  }
+
+  equals(other: Note): boolean {
+      return this.startTime.eq(other.startTime)
+          && this.endTime.eq(other.endTime)
+          && this.pitch.eq(other.pitch)
+          && this.velocity == other.velocity
+          && this.track == other.track
+          && this.glide.length == other.glide.length
+          && this.glide.every((g, i) => g.position.eq(other.glide[i].position) && g.pitch.eq(other.glide[i].pitch))
+          && EXPRESSIONS.every(e => this[e].length == other[e].length
+              && this[e].every((p, i) => p.position.eq(other[e][i].position) && p.value == other[e][i].value));
+  }
+
+  setExpressionPoint(expression: Expression, position: ExactNumberType, value: number): void {
+      const points = this[expression].filter(p => ! p.position.eq(position));
+      points.push({ position: position, value: value });
+      points.sort((a, b) => a.position.cmp(b.position));
+      this[expression] = points;
+  }
+
+  // The expression at a position in [0,1] along the note, moving linearly between points
+  // and held before the first and after the last. null if the note has none.
+  expressionAt(expression: Expression, position: number): number {
+      const points = this[expression];
+      if (points.length === 0) {
+          return null;
+      }
+      let p0 = 0;
+      let v0 = points[0].value;
+      for (const p of points) {
+          const p1 = p.position.toNumber();
+          if (position <= p1) {
+              return p1 > p0 ? v0 + (p.value - v0) * (position - p0) / (p1 - p0) : p.value;
+          }
+          [p0, v0] = [p1, p.value];
+      }
+      return v0;
+  }
+
+  // The expression points at their score times.
+  expressionTimes(expression: Expression): { time: number, value: number }[] {
+      const start = this.startTime.toNumber();
+      const length = this.endTime.toNumber() - start;
+      return this[expression].map(p => ({ time: start + p.position.toNumber() * length, value: p.value }));
+  }
+
+  // Multiplies every pitch of the note by ratio.
+  transpose(ratio: ExactNumberType): void {
+      this.pitch = this.pitch.mul(ratio).normalize();
+      this.glide = this.glide.map(g => ({ position: g.position, pitch: g.pitch.mul(ratio).normalize() }));
+  }
+
+  setGlidePoint(position: ExactNumberType, pitch: ExactNumberType): void {
+      this.glide = this.glide.filter(g => ! g.position.eq(position));
+      this.glide.push({ position: position, pitch: pitch });
+      this.glide.sort((a, b) => a.position.cmp(b.position));
+  }
+
+  // The frequency at a position in [0,1] along the note, moving evenly in log frequency between glide points.
+  pitchAt(position: number): number {
+      let p0 = 0;
+      let f0 = this.pitch.toNumber();
+      for (const g of this.glide) {
+          const p1 = g.position.toNumber();
+          const f1 = g.pitch.toNumber();
+          if (position <= p1) {
+              return f0 * Math.pow(f1 / f0, (position - p0) / (p1 - p0));
+          }
+          [p0, f0] = [p1, f1];
+      }
+      return f0;
+  }
+
+  // The glide points at their score times.
+  glideTimes(): { time: number, freq: number }[] {
+      const start = this.startTime.toNumber();
+      const length = this.endTime.toNumber() - start;
+      return this.glide.map(g => ({ time: start + g.position.toNumber() * length, freq: g.pitch.toNumber() }));
+  }
+
+  serialize(): FileType.Note {
+      return {
+          startTime: this.startTime.toString(),
+          endTime: this.endTime.toString(),
+          pitch: this.pitch.toString(),
+          velocity: this.velocity,
+          glide: this.glide.map(g => ({ position: g.position.toString(), pitch: g.pitch.toString() })),
+          pressure: this.pressure.map(p => ({ position: p.position.toString(), value: p.value })),
+          timbre: this.timbre.map(p => ({ position: p.position.toString(), value: p.value })),
+          track: this.track,
+      };
+  }
+
+  static deserialize(n: FileType.Note): Note {
+      return new Note(N(n.startTime), N(n.endTime), N(n.pitch), n.velocity,
+                      n.glide.map(g => ({ position: N(g.position), pitch: N(g.pitch) })),
+                      n.pressure.map(p => ({ position: N(p.position), value: p.value })),
+                      n.timbre.map(p => ({ position: N(p.position), value: p.value })),
+                      n.track);
   }
 }
 
+// A voice of the score, whose notes are drawn in its colour and play on its instrument.
+export class Track {
+  name: string;
+  colour: string;  // CSS hex colour
+  volume: number;  // [0,1], scaling the velocities of its notes
+  mute: boolean;
+  solo: boolean;
+  visible: boolean;  // hidden tracks still play, but aren't drawn or edited
+  instrument: Instrument;
+  instrumentName: string;  // as shown in the tracks panel
+  synth: ToneSynth;  // the track's own web synth, saved with it whichever instrument it plays on
+  sampler: SampleInstrument;  // made when the track is first played on the sampler, or null
+
+  // The track starts out playing on synth.
+  constructor(name: string, colour: string, synth: ToneSynth) {
+      this.name = name;
+      this.colour = colour;
+      this.volume = 1;
+      this.mute = false;
+      this.solo = false;
+      this.visible = true;
+      this.instrument = synth;
+      this.instrumentName = WEB_SYNTH_NAME;
+      this.synth = synth;
+      this.sampler = null;
+  }
+
+  clone(): Track {
+      return Object.assign(new Track(this.name, this.colour, this.synth), this);
+  }
+
+  serialize(): FileType.Track {
+      return {
+          name: this.name,
+          colour: this.colour,
+          volume: this.volume,
+          mute: this.mute,
+          solo: this.solo,
+          visible: this.visible,
+          synth: this.synth.getParams(),
+          preset: this.synth.getPreset(),
+      };
+  }
+
+  // Sets synth to the track's saved parameters.
+  static deserialize(t: FileType.Track, synth: ToneSynth): Track {
+      synth.setParams(t.synth, t.preset);
+      const track = new Track(t.name, t.colour, synth);
+      track.volume = t.volume;
+      track.mute = t.mute;
+      track.solo = t.solo;
+      track.visible = t.visible;
+      return track;
+  }
+}
+
+// Whether a track's notes are heard: if any track is soloed only soloed tracks are, otherwise unmuted ones.
+function isAudible(track: Track, tracks: Track[]): boolean {
+  return tracks.some(t => t.solo) ? track.solo : ! track.mute;
+}
+
+// Everything an edit can change, as recorded in the undo history.
+type EditState = {
+  notes: Note[],
+  selectedNotes: Note[],
+  fundamentals: FundamentalChange[],
+  meter: MeterChange[],
+  tempoMap: TempoPoint[],
+};
+
 
 interface Point {
-  x: number;
+  x: ExactNumberType;
   y: ExactNumberType;
 }
 
+export type LoopRegion = {
+  start: ExactNumberType,
+  end: ExactNumberType,
+};
+
+// A note held on the MIDI input while recording, in unquantized score time.
+type HeldNote = {
+  startTime: number,
+  pitch: ExactNumberType,
+  velocity: number,
+  bends: { time: number, pitch: ExactNumberType }[],
+  startedAt: number,  // audio time of the note on
+  monitor: PlayingNote,
+  track: number,
+};
+
+type Recording = {
+  listener: MidiInputListener,
+  clock: Player,  // gives the score time of incoming events
+  ownClock: boolean,  // started for the recording, rather than playing the score
+  before: EditState,
+  held: Map<number, HeldNote>,
+};
+
 export class Player {
   private notes: Note[];
   private playingNotes: Note[];
   private startTime: number;
   private playheadStart: number;
-  private scheduler: Scheduler;
-  private instrument: Instrument;
-  private tempo: number;
-
-  constructor(notes: Note[], tempo: number, instrument: Instrument, playheadStart: number) {
+  private scheduler: EventScheduler;
+  private tracks: Track[];
+  private tempoMap: TempoMap;
+  private loop: LoopRegion;
+  private playing: boolean;
+
+  // Each note plays on its track's instrument. Mute, solo and volume are read as notes start,
+  // so changing them takes effect during playback.
+  constructor(notes: Note[], tempoMap: TempoMap, tracks: Track[], playheadStart: number, loop: LoopRegion,
+              scheduler: EventScheduler = new Scheduler(0.2)) {
     this.notes = notes;
     this.playingNotes = [];
 
-    this.scheduler = new Scheduler(0.2);
-    this.instrument = instrument;
+    this.scheduler = scheduler;
+    this.tracks = tracks;
 
     this.startTime = Tone.now();
+    this.tempoMap = tempoMap;
+    this.loop = loop;
+    this.playing = true;
+
+    if (loop && (playheadStart < loop.start.toNumber() || playheadStart >= loop.end.toNumber())) {
+        playheadStart = loop.start.toNumber();
+    }
     this.playheadStart = playheadStart;
-    this.tempo = tempo;
 
+    if (loop) {
+        this.scheduleLoop(this.startTime, playheadStart);
+    }
+    else {
+        this.schedulePass(this.startTime, playheadStart, Infinity);
+    }
+  }
+
+  // Schedules the notes starting in [from, to), cutting them off at to, with score time from sounding at passStart.
+  private schedulePass(passStart: number, from: number, to: number) {
+    const fromSeconds = this.tempoMap.toSeconds(from);
     for (const note of this.notes) {
         const pitch = note.pitch.toNumber();
-        if (note.startTime >= playheadStart) {
+        const startTime = note.startTime.toNumber();
+        const endTime = Math.min(note.endTime.toNumber(), to);
+        if (startTime >= from && startTime < to) {
             let playingNote: PlayingNote = null;
-            this.scheduler.schedule(this.startTime + (note.startTime - playheadStart) / tempo, (when: number) => {
-                playingNote = instrument.startNote(when, pitch, note.velocity);
+            this.scheduler.schedule(passStart + this.tempoMap.toSeconds(startTime) - fromSeconds, (when: number) => {
+                const track = this.tracks[note.track];
+                if (! track || ! isAudible(track, this.tracks)) {
+                    return;
+                }
+                playingNote = track.instrument.startNote(when, pitch, note.velocity * track.volume);
+                if (playingNote) {
+                    this.scheduleGlide(playingNote, note, passStart - fromSeconds, endTime);
+                    for (const expression of EXPRESSIONS) {
+                        this.scheduleExpression(playingNote, note, expression, passStart - fromSeconds, endTime);
+                    }
+                }
             });
-            this.scheduler.schedule(this.startTime + (note.endTime - playheadStart) / tempo, (when: number) => {
+            this.scheduler.schedule(passStart + this.tempoMap.toSeconds(endTime) - fromSeconds, (when: number) => {
                 if (playingNote) {
                     playingNote.stop(when);
                 }
-                else {
-                    console.log('Warning: Trying to stop a note before it has been created');
-                }
             });
         }
     }
   }
 
+  // The score times of a curve's points up to end, and end itself if the curve goes on past it.
+  private curveTimesUntil(times: number[], end: number): number[] {
+    const until = times.filter(t => t <= end);
+    return until.length < times.length ? [...until, end] : until;
+  }
+
+  // Calls step with score times from from through each of times in turn, at most CONTROL_CHUNK seconds apart,
+  // each call made through the scheduler when the step before sounds. Instruments are then never handed more of a
+  // curve than the scheduler looks ahead, and none of it once the note has stopped.
+  // secondsOffset maps the tempo map's seconds to audio time.
+  private scheduleSteps(from: number, times: number[], secondsOffset: number, step: (time: number) => void) {
+    let last = from;
+    for (const time of times) {
+        const steps = Math.max(1, Math.ceil((this.tempoMap.toSeconds(time) - this.tempoMap.toSeconds(last)) / CONTROL_CHUNK));
+        for (let i = 1; i <= steps; i++) {
+            const previous = last + (time - last) * (i - 1) / steps;
+            const t = last + (time - last) * i / steps;
+            this.scheduler.schedule(secondsOffset + this.tempoMap.toSeconds(previous), () => step(t));
+        }
+        last = time;
+    }
+  }
+
+  // Glides the playing note through its glide points up to score time end, when it may be cut off.
+  private scheduleGlide(playingNote: PlayingNote, note: Note, secondsOffset: number, end: number) {
+    const startTime = note.startTime.toNumber();
+    const length = note.endTime.toNumber() - startTime;
+    if (length <= 0) {
+        return;
+    }
+    const times = this.curveTimesUntil(note.glideTimes().map(p => p.time), end);
+    this.scheduleSteps(startTime, times, secondsOffset, (time: number) => {
+        playingNote.glideTo(secondsOffset + this.tempoMap.toSeconds(time), note.pitchAt((time - startTime) / length));
+    });
+  }
+
+  // Moves the playing note's expression along its curve up to score time end, if it has one.
+  private scheduleExpression(playingNote: PlayingNote, note: Note, expression: Expression, secondsOffset: number, end: number) {
+    const startTime = note.startTime.toNumber();
+    const length = note.endTime.toNumber() - startTime;
+    if (note[expression].length === 0 || length <= 0) {
+        return;
+    }
+    playingNote.expressTo(secondsOffset + this.tempoMap.toSeconds(startTime), expression, note.expressionAt(expression, 0));
+    const times = this.curveTimesUntil(note.expressionTimes(expression).map(p => p.time), end);
+    this.scheduleSteps(startTime, times, secondsOffset, (time: number) => {
+        playingNote.expressTo(secondsOffset + this.tempoMap.toSeconds(time), expression,
+                              note.expressionAt(expression, (time - startTime) / length));
+    });
+  }
+
+  private scheduleLoop(passStart: number, from: number) {
+    const loopEnd = this.loop.end.toNumber();
+    this.schedulePass(passStart, from, loopEnd);
+
+    const nextPass = passStart + this.tempoMap.toSeconds(loopEnd) - this.tempoMap.toSeconds(from);
+    // Half a pass ahead at most, so that passes of a short loop are scheduled one at a time, not all at once.
+    const loopSeconds = this.tempoMap.toSeconds(loopEnd) - this.tempoMap.toSeconds(this.loop.start.toNumber());
+    this.scheduler.schedule(nextPass - Math.min(LOOP_LOOKAHEAD, loopSeconds / 2), () => {
+        this.scheduleLoop(nextPass, this.loop.start.toNumber());
+    });
+  }
+
   stop() {
+      this.playing = false;
       this.scheduler.stop((when: number) => { 
-          this.instrument.stopAllNotes(when);
+          for (const instrument of new Set(this.tracks.map(t => t.instrument))) {
+              instrument.stopAllNotes(when);
+          }
       });
   }
 
-  getPlayhead(): number {
-      return (Tone.now() - this.startTime) * this.tempo + this.playheadStart;
+  isPlaying(): boolean {
+      return this.playing;
+  }
+
+  getLoop(): LoopRegion {
+      return this.loop;
+  }
+
+  // The score time sounding at audio time now.
+  getPlayhead(now: number = Tone.now()): number {
+      const elapsed = now - this.startTime;
+      const startSeconds = this.tempoMap.toSeconds(this.playheadStart);
+      if (this.loop) {
+          const loopStart = this.tempoMap.toSeconds(this.loop.start.toNumber());
+          const loopEnd = this.tempoMap.toSeconds(this.loop.end.toNumber());
+          if (startSeconds + elapsed >= loopEnd) {
+              return this.tempoMap.fromSeconds(loopStart + (startSeconds + elapsed - loopEnd) % (loopEnd - loopStart));
+          }
+      }
+      return this.tempoMap.fromSeconds(startSeconds + elapsed);
   }
 };
 
@@ -91,28 +447,338 @@ export class NotesView {
   private viewport: Viewport;
   private notes: Note[];
   private selectedNotes: Note[];
-  private instrument: Instrument;
+  private tracks: Track[];
+  private activeTrack: number;
+  private editAllTracks: boolean;  // edits act on every visible track, not just the active one
+  private tracksDiv: HTMLElement;
+  private onActiveTrackChange: (instrumentName: string) => void;
+  private presets: PresetLibrary;  // shared by the tracks' synths
+  private effects: EffectsChain;
   private commands: Commands.Runner;
-  private tempo: number;
+  private tempoMap: TempoMap;
+  private tempoInput: HTMLInputElement;
+  private meter: MeterMap;
+  private loop: LoopRegion;
+  private playStart: ExactNumberType;  // where the ruler was clicked, or null to play from the left edge
+  private history: History<EditState>;
+  private player: Player;
+  private midiInput: WebMidi.MIDIInput;
+  private recording: Recording;
+  private quantizeRecording: boolean;
 
   constructor(p: p5) {
     this.p5 = p;
     this.viewport = new LogViewport(0, 36, 40, 108);
-    this.quantizationGrid = new QuantizationGrid(1, N("216"));
+    this.quantizationGrid = new QuantizationGrid(N("1"), [{ time: N(0), fundamental: N("216") }]);
     this.notes = [];
     this.selectedNotes = [];
-    this.instrument = new ToneSynth();
+    this.presets = new PresetLibrary();
+    this.effects = new EffectsChain();
+    this.tracks = [new Track("Track 1", TRACK_COLOURS[0], this.newSynth())];
+    this.activeTrack = 0;
+    this.onActiveTrackChange = null;
+    this.editAllTracks = false;
     this.commands = new Commands.Runner();
-    this.tempo = 4;
+    this.tempoMap = TempoMap.constant(N(4));
+    this.meter = MeterMap.constant(4, 4);
+    this.history = new History(HISTORY_LIMIT);
+    this.loop = null;
+    this.playStart = null;
+    this.player = null;
+    this.midiInput = null;
+    this.recording = null;
+    this.quantizeRecording = true;
 
     this.registerCommands();
     document.getElementById('help-container').appendChild(this.commands.getHelpHTML());
 
     this.makeTempoBox();
+    this.makeTracksPanel();
   }
   
-  setInstrument(instrument: Instrument) {
-      this.instrument = instrument;
+  // Plays the active track on instrument, shown in the tracks panel as name.
+  setInstrument(instrument: Instrument, name: string) {
+      const track = this.tracks[this.activeTrack];
+      track.instrument = instrument;
+      track.instrumentName = name;
+      this.fillTracksPanel();
+  }
+
+  // The name of the active track's instrument, as given to setInstrument.
+  getInstrumentName(): string {
+      return this.tracks[this.activeTrack].instrumentName;
+  }
+
+  // Calls onChange with the name of the active track's instrument whenever another track becomes active,
+  // or a score is loaded.
+  setActiveTrackListener(onChange: (instrumentName: string) => void): void {
+      this.onActiveTrackChange = onChange;
+  }
+
+  private activeInstrument(): Instrument {
+      return this.tracks[this.activeTrack].instrument;
+  }
+
+  // The instrument a note plays on, for previews while editing.
+  private instrumentOf(note: Note): Instrument {
+      return this.tracks[note.track].instrument;
+  }
+
+  // Edits act on the visible notes of the active track, or of every track.
+  private isEditable(note: Note): boolean {
+      const track = this.tracks[note.track];
+      return track.visible && (this.editAllTracks || note.track === this.activeTrack);
+  }
+
+  private editableNotes(): Note[] {
+      return this.notes.filter(n => this.isEditable(n));
+  }
+
+  private addTrack(): void {
+      const colour = TRACK_COLOURS[this.tracks.length % TRACK_COLOURS.length];
+      this.tracks.push(new Track("Track " + (this.tracks.length + 1), colour, this.newSynth()));
+      this.setActiveTrack(this.tracks.length - 1);
+  }
+
+  private setActiveTrack(index: number): void {
+      this.activeTrack = index;
+      this.selectedNotes = this.selectedNotes.filter(n => this.isEditable(n));
+      this.fillTracksPanel();
+      if (this.onActiveTrackChange) {
+          this.onActiveTrackChange(this.getInstrumentName());
+      }
+  }
+
+  private newSynth(): ToneSynth {
+      const synth = new ToneSynth(this.presets);
+      synth.setOutput(this.effects.input);
+      return synth;
+  }
+
+  // Deletes the track and its notes. Undo history, the player and any recording refer to tracks by index,
+  // so the history is cleared and playing and recording stop.
+  private deleteTrack(index: number): void {
+      if (this.tracks.length === 1) {
+          alert('Delete track: A score needs at least one track');
+          return;
+      }
+      if (! window.confirm('Delete "' + this.tracks[index].name + '" and its notes? This can\'t be undone.')) {
+          return;
+      }
+      if (this.recording) {
+          this.stopRecording();
+      }
+      if (this.player && this.player.isPlaying()) {
+          this.player.stop();
+      }
+      this.tracks.splice(index, 1);
+      this.notes = this.notes.filter(n => n.track !== index);
+      for (const note of this.notes) {
+          if (note.track > index) {
+              note.track--;
+          }
+      }
+      this.history.clear();
+      this.setActiveTrack(Math.min(this.activeTrack > index ? this.activeTrack - 1 : this.activeTrack, this.tracks.length - 1));
+  }
+
+  makeTracksPanel() {
+      this.tracksDiv = document.getElementById('tracks-container');
+      this.fillTracksPanel();
+  }
+
+  // A row per track: the active track's radio button, name, colour, volume, mute, solo, visibility and instrument.
+  private fillTracksPanel() {
+      const div = this.tracksDiv;
+      div.innerHTML = '';
+
+      const input = (type: string, value: string, onChange: (el: HTMLInputElement) => void) => {
+          const el = document.createElement('input');
+          el.setAttribute('type', type);
+          el.value = value;
+          el.addEventListener(type === 'range' ? 'input' : 'change', () => onChange(el));
+          return el;
+      };
+      const checkbox = (label: string, checked: boolean, onChange: (checked: boolean) => void) => {
+          const labelEl = document.createElement('label');
+          const el = input('checkbox', '', (el) => onChange(el.checked));
+          el.checked = checked;
+          labelEl.appendChild(el);
+          labelEl.appendChild(document.createTextNode(label));
+          return labelEl;
+      };
+
+      const rows = this.tracks.map((track: Track, i: number) => {
+          const active = input('radio', '', () => this.setActiveTrack(i));
+          active.setAttribute('name', 'active-track');
+          active.checked = i === this.activeTrack;
+          const name = input('text', track.name, (el) => { track.name = el.value });
+          name.style.width = '8em';
+          const colour = input('color', track.colour, (el) => { track.colour = el.value });
+          const volume = input('range', '', (el) => { track.volume = Number(el.value) });
+          volume.setAttribute('min', '0');
+          volume.setAttribute('max', '1');
+          volume.setAttribute('step', 'any');
+          volume.value = String(track.volume);
+          const instrument = document.createElement('span');
+          instrument.innerText = track.instrumentName;
+          return [
+              active, name, colour, volume,
+              checkbox('M', track.mute, (checked) => { track.mute = checked }),
+              checkbox('S', track.solo, (checked) => { track.solo = checked }),
+              checkbox('Visible', track.visible, (checked) => {
+                  track.visible = checked;
+                  this.selectedNotes = this.selectedNotes.filter(n => this.isEditable(n));
+              }),
+              instrument,
+              makeButton('Delete', () => this.deleteTrack(i)),
+          ];
+      });
+      div.appendChild(makeTable(rows));
+      div.appendChild(makeButton('Add track', () => this.addTrack()));
+      div.appendChild(checkbox('Edit all visible tracks', this.editAllTracks, (checked) => {
+          this.editAllTracks = checked;
+          this.selectedNotes = this.selectedNotes.filter(n => this.isEditable(n));
+      }));
+  }
+
+  // The active track's web synth, whose parameters are saved with the track.
+  getSynth(): ToneSynth {
+      return this.tracks[this.activeTrack].synth;
+  }
+
+  // The active track's sampler, made on first use. Its samples aren't saved.
+  getSampler(): SampleInstrument {
+      const track = this.tracks[this.activeTrack];
+      if (! track.sampler) {
+          track.sampler = new SampleInstrument();
+          track.sampler.setOutput(this.effects.input);
+      }
+      return track.sampler;
+  }
+
+  // The master effects of the web synths and samplers, saved with the score.
+  getEffects(): EffectsChain {
+      return this.effects;
+  }
+
+  setMidiInput(input: WebMidi.MIDIInput) {
+      if (this.recording) {
+          this.stopRecording();
+      }
+      this.midiInput = input;
+  }
+
+  // Records notes from the MIDI input along with the playing score, or from the left of the view if nothing plays.
+  private startRecording(): void {
+      if (! this.midiInput) {
+          alert('Record: Choose a MIDI input first');
+          return;
+      }
+      const ownClock = ! (this.player && this.player.isPlaying());
+      const clock = ownClock
+          ? new Player([], this.tempoMap.clone(), this.tracks, this.playStartTime(), this.loop)
+          : this.player;
+      const held = new Map<number, HeldNote>();
+
+      const listener = new MidiInputListener(this.midiInput, {
+          noteOn: (key: number, freq: number, velocity: number, when: number) => {
+              const startTime = clock.getPlayhead(when);
+              const pitch = this.quantizationGrid.snapY(freq, startTime);
+              held.set(key, {
+                  startTime: startTime,
+                  pitch: pitch,
+                  velocity: velocity,
+                  bends: [],
+                  startedAt: when,
+                  monitor: this.activeInstrument().startNote(Tone.now(), pitch.toNumber(), velocity),
+                  track: this.activeTrack,
+              });
+          },
+          pitchChange: (key: number, freq: number, when: number) => {
+              const note = held.get(key);
+              if (! note) {
+                  return;
+              }
+              const pitch = this.quantizationGrid.snapY(freq, note.startTime);
+              const last = note.bends.length > 0 ? note.bends[note.bends.length - 1].pitch : note.pitch;
+              if (pitch.eq(last)) {
+                  return;
+              }
+              if (when - note.startedAt < BEND_SETTLE_TIME) {
+                  note.pitch = pitch;
+              }
+              else {
+                  note.bends.push({ time: clock.getPlayhead(when), pitch: pitch });
+              }
+              if (note.monitor) {
+                  note.monitor.glideTo(Tone.now(), pitch.toNumber());
+              }
+          },
+          noteOff: (key: number, when: number) => {
+              const note = held.get(key);
+              if (! note) {
+                  return;
+              }
+              held.delete(key);
+              if (note.monitor) {
+                  note.monitor.stop(Tone.now());
+              }
+              const recorded = this.recordedNote(note, clock, clock.getPlayhead(when));
+              if (recorded) {
+                  this.notes.push(recorded);
+              }
+          },
+      });
+
+      this.recording = { listener: listener, clock: clock, ownClock: ownClock, before: this.snapshot(), held: held };
+  }
+
+  private stopRecording(): void {
+      const recording = this.recording;
+      recording.listener.close();
+      if (recording.ownClock) {
+          recording.clock.stop();
+      }
+      this.recording = null;
+      if (this.isModifiedSince(recording.before)) {
+          this.history.push(recording.before);
+      }
+  }
+
+  private recordingTime(time: number): ExactNumberType {
+      return this.quantizeRecording ? this.quantizationGrid.snapX(time) : N(String(time));
+  }
+
+  // The note made from a held note released at score time end, or null if it is too short to keep.
+  private recordedNote(held: HeldNote, clock: Player, end: number): Note {
+      const loop = clock.getLoop();
+      const wrapped = loop && end < held.startTime;
+      const startTime = this.recordingTime(held.startTime);
+      let endTime = wrapped ? loop.end : this.recordingTime(end);
+      if (endTime.lte(startTime)) {
+          endTime = startTime.add(this.quantizationGrid.getMinStep()).normalize();
+          if (endTime.lte(startTime)) {
+              return null;
+          }
+      }
+
+      const length = endTime.sub(startTime);
+      const glide: GlidePoint[] = [];
+      for (const bend of held.bends) {
+          if (bend.time < held.startTime) {
+              break;  // after the loop wrapped
+          }
+          const position = N.min(this.recordingTime(bend.time).sub(startTime).div(length), N(1)).normalize();
+          if (position.lte(0)) {
+              continue;
+          }
+          if (glide.length > 0 && position.eq(glide[glide.length - 1].position)) {
+              glide.pop();
+          }
+          glide.push({ position: position, pitch: bend.pitch });
+      }
+      return new Note(startTime, endTime, held.pitch, held.velocity, glide, [], [], held.track);
   }
 
   makeTempoBox() {
@@ -121,33 +787,194 @@ export class NotesView {
       const input = document.createElement('input');
       div.appendChild(input);
       input.setAttribute('type', 'text');
-      input.setAttribute('value', String(this.tempo*15));
+      input.setAttribute('value', this.formatTempo(this.tempoMap.getInitialTempo()));
       input.addEventListener('change', () => {
-          this.tempo = Number(input.value)/15;
+          const first = this.tempoMap.getPoints()[0];
+          const tempo = this.parseTempo(input.value, first.tempo);
+          if (tempo === null) {
+              alert('Tempo: I don\'t understand "' + input.value + '"');
+          }
+          else {
+              this.checkpoint();
+              this.tempoMap.setPoint({ time: first.time, tempo: tempo, curve: first.curve });
+          }
+          input.value = this.formatTempo(this.tempoMap.getInitialTempo());
       });
+      this.tempoInput = input;
+  }
+
+  // Either a tempo in beats per minute, or a ratio p:q that multiplies the previous tempo by p/q.
+  private parseTempo(input: string, previous: ExactNumberType): ExactNumberType {
+      const ratio = input.match(/^\s*(\d+)\s*:\s*(\d+)\s*$/);
+      if (ratio) {
+          if (Number(ratio[1]) == 0 || Number(ratio[2]) == 0) {
+              return null;
+          }
+          return previous.mul(N(ratio[1])).div(N(ratio[2])).normalize();
+      }
+      try {
+          const tempo = N(input.trim());
+          return tempo.gt(0) ? tempo.div(TEMPO_DISPLAY_SCALE).normalize() : null;
+      }
+      catch (e) {
+          return null;
+      }
+  }
+
+  // A pitch grid from its description: "harmonic", an equal division like "31edo", a prime limit and
+  // Tenney height like "7-limit 10", largest numerator and denominator like "ratio 16/12", or a Tenney
+  // height alone like "tenney 8". null if it isn't understood or out of range.
+  private parsePitchGrid(input: string): PitchGrid {
+      const text = input.trim().toLowerCase();
+      if (text === 'harmonic') {
+          return new HarmonicGrid();
+      }
+      const edo = text.match(/^(\d+)\s*-?\s*edo$/);
+      if (edo) {
+          const divisions = Number(edo[1]);
+          return divisions >= 1 && divisions <= FileType.MAX_EDO ? new EDOGrid(divisions) : null;
+      }
+      const primeLimit = text.match(/^(\d+)\s*-?\s*limit\s+(\d+(?:\.\d+)?)$/);
+      if (primeLimit) {
+          const limit = Number(primeLimit[1]);
+          const height = Number(primeLimit[2]);
+          return limit >= 2 && limit <= FileType.MAX_PRIME_LIMIT && height >= 1 && height <= FileType.MAX_TENNEY_HEIGHT
+              ? new PrimeLimitGrid(limit, height) : null;
+      }
+      const ratio = text.match(/^ratio\s+(\d+)\s*\/\s*(\d+)$/);
+      if (ratio) {
+          const numerator = Number(ratio[1]);
+          const denominator = Number(ratio[2]);
+          const inRange = (term: number) => term >= 1 && term <= FileType.MAX_RATIO_TERM;
+          return inRange(numerator) && inRange(denominator) ? new RatioGrid(numerator, denominator) : null;
+      }
+      const tenney = text.match(/^tenney\s+(\d+(?:\.\d+)?)$/);
+      if (tenney) {
+          const height = Number(tenney[1]);
+          return height >= 1 && height <= FileType.MAX_RATIO_HEIGHT ? new TenneyGrid(height) : null;
+      }
+      return null;
+  }
+
+  private formatTempo(tempo: ExactNumberType): string {
+      return String(Number(tempo.mul(TEMPO_DISPLAY_SCALE).toFixed(2)));
   }
 
   serialize(): FileType.Score {
       return {
-          notes: this.notes.map((n: Note) => ({ 
-              startTime: n.startTime, 
-              endTime: n.endTime, 
-              pitch: n.pitch.toString(),
-              velocity: n.velocity,
-          }))
+          version: FileType.CURRENT_VERSION,
+          notes: this.notes.map((n: Note) => n.serialize()),
+          tracks: this.tracks.map((t: Track) => t.serialize()),
+          tempoMap: this.tempoMap.serialize(),
+          meter: this.meter.serialize(),
+          grid: {
+              xsnap: this.quantizationGrid.getXSnap().toString(),
+              subdivisions: this.quantizationGrid.getSubdivisions(),
+              fundamentals: this.quantizationGrid.serializeFundamentals(),
+              pitch: this.quantizationGrid.getPitchGrid().serialize(),
+          },
+          viewport: this.viewport.serialize(),
+          effects: this.effects.getParams(),
       };
   }
 
   deserialize(obj: object): void {
       const score = FileType.loadScore(obj);
-      this.notes = score.notes.map((n: FileType.Note) => new Note(n.startTime, n.endTime, N(n.pitch), n.velocity));
+      this.notes = score.notes.map(Note.deserialize);
       this.selectedNotes = [];
+      this.history.clear();
+
+      // Tracks keep the instruments chosen for them in this session.
+      this.tracks = score.tracks.map((t: FileType.Track, i: number) => {
+          if (i >= this.tracks.length) {
+              return Track.deserialize(t, this.newSynth());
+          }
+          const old = this.tracks[i];
+          return Object.assign(Track.deserialize(t, old.synth),
+                               { instrument: old.instrument, instrumentName: old.instrumentName, sampler: old.sampler });
+      });
+      this.setActiveTrack(Math.min(this.activeTrack, this.tracks.length - 1));
+
+      this.tempoMap = TempoMap.deserialize(score.tempoMap);
+      this.tempoInput.value = this.formatTempo(this.tempoMap.getInitialTempo());
+      this.meter = MeterMap.deserialize(score.meter);
+      this.playStart = null;
+      this.quantizationGrid = new QuantizationGrid(N(score.grid.xsnap),
+                                                   QuantizationGrid.deserializeFundamentals(score.grid.fundamentals),
+                                                   pitchGridFromFile(score.grid.pitch), score.grid.subdivisions);
+      this.viewport = viewportFromFile(score.viewport, (time: number) => this.quantizationGrid.fundamentalAt(time).toNumber());
+      this.effects.setParams(score.effects);
+  }
+
+  private snapshot(): EditState {
+      const notes = this.notes.map(n => n.clone());
+      return {
+          notes: notes,
+          selectedNotes: this.selectedNotes.map(n => notes[this.notes.indexOf(n)]).filter(n => n !== undefined),
+          fundamentals: this.quantizationGrid.getFundamentals(),
+          meter: this.meter.getChanges(),
+          tempoMap: this.tempoMap.getPoints(),
+      };
+  }
+
+  private restore(state: EditState): void {
+      this.notes = state.notes;
+      this.selectedNotes = state.selectedNotes;
+      this.quantizationGrid.setFundamentals(state.fundamentals);
+      this.meter = new MeterMap(state.meter);
+      this.tempoMap = new TempoMap(state.tempoMap);
+      this.tempoInput.value = this.formatTempo(this.tempoMap.getInitialTempo());
+  }
+
+  private isModifiedSince(state: EditState): boolean {
+      return this.notes.length != state.notes.length
+          || this.notes.some((n, i) => ! n.equals(state.notes[i]))
+          || this.quantizationGrid.getFundamentals().length != state.fundamentals.length
+          || this.quantizationGrid.getFundamentals().some((c, i) => ! c.time.eq(state.fundamentals[i].time)
+                                                                     || ! c.fundamental.eq(state.fundamentals[i].fundamental))
+          || this.meter.getChanges().length != state.meter.length
+          || this.meter.getChanges().some((c, i) => ! c.time.eq(state.meter[i].time)
+                                                    || c.beats !== state.meter[i].beats || c.unit !== state.meter[i].unit)
+          || this.tempoMap.getPoints().length != state.tempoMap.length
+          || this.tempoMap.getPoints().some((p, i) => ! p.time.eq(state.tempoMap[i].time)
+                                                      || ! p.tempo.eq(state.tempoMap[i].tempo) || p.curve !== state.tempoMap[i].curve);
+  }
+
+  // Call before every edit so that it can be undone.
+  private checkpoint(): void {
+      this.history.push(this.snapshot());
+  }
+
+  // The fundamental in effect at the mouse's time.
+  private fundamental(): ExactNumberType {
+      return this.quantizationGrid.fundamentalAt(this.viewport.mapXinv(this.p5.mouseX, this.p5));
+  }
+
+  // Changes the fundamental of the section at time, by default the one the mouse is in.
+  private setFundamental(fundamental: ExactNumberType,
+                         time: number = this.viewport.mapXinv(this.p5.mouseX, this.p5)): void {
+      this.checkpoint();
+      this.quantizationGrid.setFundamentalAt(time, fundamental);
+  }
+
+  undo(): void {
+      const state = this.history.undo(this.snapshot());
+      if (state) {
+          this.restore(state);
+      }
+  }
+
+  redo(): void {
+      const state = this.history.redo(this.snapshot());
+      if (state) {
+          this.restore(state);
+      }
   }
 
   getMouseCoords(): Point {
     return { 
       x: this.quantizationGrid.snapX(this.viewport.mapXinv(this.p5.mouseX, this.p5)),
-      y: this.quantizationGrid.snapY(this.viewport.mapYinv(this.p5.mouseY, this.p5))
+      y: this.quantizationGrid.snapY(this.viewport.mapYinv(this.p5.mouseY, this.p5), this.viewport.mapXinv(this.p5.mouseX, this.p5))
     };
   }
 
@@ -197,41 +1024,202 @@ export class NotesView {
           // Dummy, handled in Sketch.ts
           await cx.listen({});
       });
+
+      simpleKey('r - start/stop recording from MIDI input  (shift+r - toggle time quantization)', 'Transport', 82, () => {
+          if (this.p5.keyIsDown(this.p5.SHIFT)) {
+              this.quantizeRecording = ! this.quantizeRecording;
+          }
+          else if (this.recording) {
+              this.stopRecording();
+          }
+          else {
+              this.startRecording();
+          }
+      });
+
+      this.commands.register('drag on ruler - set loop region  (click - play from there, shift+click - clear loop and play start)', 'Transport', async (cx: Commands.Context) => {
+          await cx.listen(cx.when(() => this.mouseOnRuler(), cx.mouseDown()));
+          const start = this.getMouseCoords().x;
+          const mkLoop = (): LoopRegion => {
+              const end = this.getMouseCoords().x;
+              return start.eq(end) ? null : { start: N.min(start, end), end: N.max(start, end) };
+          };
+          await cx.listen({
+              draw: () => {
+                  this.drawLoop(mkLoop());
+                  return { control: 'REPEAT' };
+              },
+              mouseUp: () => {
+                  const loop = mkLoop();
+                  if (loop) {
+                      this.loop = loop;
+                  }
+                  else if (this.p5.keyIsDown(this.p5.SHIFT)) {
+                      this.loop = null;
+                      this.playStart = null;
+                  }
+                  else {
+                      this.playStart = start;
+                  }
+                  return { control: 'CONSUME', value: undefined };
+              },
+          });
+      });
+
+      simpleKey('m - set meter from the bar at the mouse, e.g. 3/4', 'Transport', 77, () => {
+          const time = this.meter.barStart(N(String(Math.max(0, this.getMouseCoordsUnquantized().x))));
+          const change = this.meter.getChanges().find(c => c.time.eq(time));
+          const removable = change && change !== this.meter.getChanges()[0];
+          const current = this.meter.changeAt(time);
+          const input = window.prompt('Meter from this bar on, such as 3/4 or 7/8' + (removable ? '. Leave empty to remove.' : ''),
+                                      current.beats + '/' + current.unit);
+          if (input === null) {
+              return;
+          }
+          if (input.trim() === '' && removable) {
+              this.checkpoint();
+              this.meter.removeChange(change);
+              return;
+          }
+          const match = input.trim().match(/^(\d+)\s*\/\s*(\d+)$/);
+          const beats = match ? Number(match[1]) : 0;
+          const unit = match ? Number(match[2]) : 0;
+          if (beats < 1 || beats > FileType.MAX_METER_BEATS || ! FileType.METER_UNITS.includes(unit)) {
+              alert('Meter: I don\'t understand "' + input + '"');
+              return;
+          }
+          this.checkpoint();
+          this.meter.setChange({ time: time, beats: beats, unit: unit });
+      });
+
+      this.commands.register('click tempo lane - add/edit tempo  (shift+click point - change curve)', 'Transport', async (cx: Commands.Context) => {
+          await cx.listen(cx.when(() => this.mouseOnTempoLane(), cx.mouseDown()));
+          await cx.action(() => {
+              const point = this.tempoPointUnderMouse();
+              if (this.p5.keyIsDown(this.p5.SHIFT)) {
+                  if (point) {
+                      const curve = TEMPO_CURVES[(TEMPO_CURVES.indexOf(point.curve) + 1) % TEMPO_CURVES.length];
+                      this.checkpoint();
+                      this.tempoMap.setPoint({ ...point, curve: curve });
+                  }
+                  return;
+              }
+
+              const time = point ? point.time : this.getMouseCoords().x;
+              if (time.isNegative()) {
+                  return;
+              }
+              const removable = point && point !== this.tempoMap.getPoints()[0];
+              const input = window.prompt('Tempo (e.g. 90), or a ratio to the previous tempo (e.g. 3:2)'
+                                            + (removable ? '. Leave empty to remove.' : ''),
+                                          point ? this.formatTempo(point.tempo) : '');
+              if (input === null) {
+                  return;
+              }
+              if (input.trim() === '' && removable) {
+                  this.checkpoint();
+                  this.tempoMap.removePoint(point);
+                  return;
+              }
+              const tempo = this.parseTempo(input, this.tempoMap.pointBefore(time).tempo);
+              if (tempo === null) {
+                  alert('Tempo: I don\'t understand "' + input + '"');
+                  return;
+              }
+              this.checkpoint();
+              this.tempoMap.setPoint({ time: time, tempo: tempo, curve: point ? point.curve : 'step' });
+              if (time.isZero()) {
+                  this.tempoInput.value = this.formatTempo(tempo);
+              }
+          });
+      });
+
+      this.commands.register('drag in pressure/timbre lane - draw curve of selected notes  (shift+click - clear)', 'Edit', async (cx: Commands.Context) => {
+          await cx.listen(cx.when(() => this.expressionLaneUnderMouse() !== null, cx.mouseDown()));
+          const expression = this.expressionLaneUnderMouse();
+          const before = this.snapshot();
+
+          // The selected notes at the time, or any editable note there if none are selected.
+          const notesAt = (time: ExactNumberType) => (this.selectedNotes.length > 0 ? this.selectedNotes : this.editableNotes())
+              .filter(n => n.startTime.lte(time) && time.lte(n.endTime) && n.startTime.lt(n.endTime));
+
+          if (this.p5.keyIsDown(this.p5.SHIFT)) {
+              await cx.action(() => {
+                  for (const note of notesAt(this.getMouseCoords().x)) {
+                      note[expression] = [];
+                  }
+                  if (this.isModifiedSince(before)) {
+                      this.history.push(before);
+                  }
+              });
+              return;
+          }
+
+          await cx.listen({
+              draw: () => {
+                  const time = this.getMouseCoords().x;
+                  const value = this.expressionValueAtMouse(expression);
+                  for (const note of notesAt(time)) {
+                      const position = time.sub(note.startTime).div(note.endTime.sub(note.startTime)).normalize();
+                      note.setExpressionPoint(expression, position, value);
+                  }
+                  return { control: 'REPEAT' };
+              },
+              mouseUp: () => {
+                  if (this.isModifiedSince(before)) {
+                      this.history.push(before);
+                  }
+                  return { control: 'CONSUME', value: undefined };
+              },
+          });
+      });
+
+      this.commands.register('ctrl+z - undo  (ctrl+shift+z - redo)', 'Edit', async (cx: Commands.Context) => {
+          await cx.listen(cx.when(() => this.p5.keyIsDown(this.p5.CONTROL), cx.key(this.p5, 90)));
+          if (this.p5.keyIsDown(this.p5.SHIFT)) {
+              await cx.action(() => this.redo());
+          }
+          else {
+              await cx.action(() => this.undo());
+          }
+      });
       
       this.commands.register('option+click - select fundamental (note)', 'hidden', async (cx:Commands.Context) => {
           const note = await cx.listen(cx.when(() => this.p5.keyIsDown(this.p5.OPTION), this.listenSelectNote(cx)));
           await cx.action(() => {
-               this.quantizationGrid.setYSnap(note.pitch);
+               this.setFundamental(note.pitch);
           });
       });
       
       this.commands.register('option+click - set fundamental', 'View', async (cx:Commands.Context) => {
           await cx.listen(cx.when(() => this.p5.keyIsDown(this.p5.OPTION), cx.mouseDown()));
           await cx.action(() => {
-               this.quantizationGrid.setYSnap(this.getMouseCoords().y);
+               this.setFundamental(this.getMouseCoords().y);
           });
       });
 
       simpleKey('g - select common subharmonic ("gcd")', 'View', 71, () => {
           if (! mustHaveSelection('GCD')) return;
           const gcd = this.selectedNotes.map(n => n.pitch).reduce((accum,p) => N.gcd(accum, p).normalize());
-          this.quantizationGrid.setYSnap(gcd);
+          this.setFundamental(gcd);
       });
 
       simpleKey('l - select common harmonic ("lcm")', 'View', 76, () => {
           if (! mustHaveSelection('LCM')) return;
           const lcm = this.selectedNotes.map(n => n.pitch).reduce((accum,p) => N.lcm(accum, p).normalize());
-          this.quantizationGrid.setYSnap(lcm);
+          this.setFundamental(lcm);
       });
       
       simpleKey('Backspace - delete notes', 'Edit', 8, () => {
           if (! mustHaveSelection('Delete')) return;
+          this.checkpoint();
           this.notes = this.notes.filter(n => ! this.selectedNotes.includes(n));
           this.selectedNotes = [];
       });
 
       simpleKey(', - decreate velocity', 'Edit', 188, () => {
           if (! mustHaveSelection('decrease velocity')) return;
+          this.checkpoint();
           for (let note of this.selectedNotes) {
               note.velocity = note.velocity * 0.8 + 0 * 0.2;
           }
@@ -239,6 +1227,7 @@ export class NotesView {
 
       simpleKey('. - increase velocity', 'Edit', 190, () => {
           if (! mustHaveSelection('decrease velocity')) return;
+          this.checkpoint();
           for (let note of this.selectedNotes) {
               note.velocity = note.velocity * 0.8 + 1 * 0.2;
           }
@@ -250,30 +1239,32 @@ export class NotesView {
               return;
           }
           const note = this.selectedNotes[0];
-          const z = note.pitch.div(this.quantizationGrid.getYSnap()).normalize();
+          const time = note.startTime.toNumber();
+          const z = note.pitch.div(this.quantizationGrid.fundamentalAt(time)).normalize();
           if (z.isInteger()) {
-              this.quantizationGrid.setYSnap(note.pitch.div(z.add(N("1"))).normalize());
+              this.setFundamental(note.pitch.div(z.add(N("1"))).normalize(), time);
           }
           else if (z.inv().isInteger()) {
-              this.quantizationGrid.setYSnap(note.pitch.mul(z.inv().sub(N("1"))).normalize());
+              this.setFundamental(note.pitch.mul(z.inv().sub(N("1"))).normalize(), time);
           }
           else {
               alert('Pivot: selected note must be on grid line');
           }
       });
 
-      simpleKey('a - shift pitch gtid up by 1 harmonic', 'View', 65, () => {
-          if (this.selectedNotes.length != 1) {
-              //alert('Pivot: exactly one note must be selected');
+      simpleKey('a - shift pitch grid up by 1 harmonic', 'View', 65, () => {
+          if (this.selectedNotes.length !== 1) {
+              alert('Pivot: exactly one note must be selected');
               return;
           }
           const note = this.selectedNotes[0];
-          const z = note.pitch.div(this.quantizationGrid.getYSnap()).normalize();
+          const time = note.startTime.toNumber();
+          const z = note.pitch.div(this.quantizationGrid.fundamentalAt(time)).normalize();
           if (z.inv().isInteger()) {
-              this.quantizationGrid.setYSnap(note.pitch.mul(z.inv().add(N("1"))).normalize());
+              this.setFundamental(note.pitch.mul(z.inv().add(N("1"))).normalize(), time);
           }
           else if (z.isInteger()) {
-              this.quantizationGrid.setYSnap(note.pitch.div(z.sub(N("1"))).normalize());
+              this.setFundamental(note.pitch.div(z.sub(N("1"))).normalize(), time);
           }
           else {
               alert('Pivot: selected note must be on grid line');
@@ -299,18 +1290,56 @@ export class NotesView {
           }
           const [r0] = ratios.splice(0, 1);
 
+          this.checkpoint();
+
           const sel = this.selectedNotes;
           this.selectedNotes = [];
           for (const note of sel) {
               for (const r of ratios) {
                   const newNote = note.clone();
-                  newNote.pitch = note.pitch.div(r0).mul(r).normalize(),
+                  newNote.transpose(N(r).div(r0));
                   this.notes.push(newNote);
                   this.selectedNotes.push(newNote);
               }
           }
       });
 
+      simpleKey('t - choose pitch grid (harmonics, N-EDO, prime limit, ratios p/q)', 'View', 84, () => {
+          const input = window.prompt('Pitch grid: "harmonic", an equal division like "31edo", a prime limit '
+                                      + 'and Tenney height like "7-limit 10", ratios p/q up to a numerator and denominator '
+                                      + 'like "ratio 16/12", or up to a Tenney height like "tenney 8"', 'harmonic');
+          if (input === null) {
+              return;
+          }
+          const grid = this.parsePitchGrid(input);
+          if (grid === null) {
+              alert('Pitch grid: I don\'t understand "' + input + '"');
+              return;
+          }
+          this.quantizationGrid.setPitchGrid(grid);
+      });
+
+      simpleKey('v - switch pitch axis (log, linear Hz, ratios to fundamental)', 'View', 86, () => {
+          const next = PITCH_AXES[(PITCH_AXES.indexOf(this.viewport.pitchAxis) + 1) % PITCH_AXES.length];
+          this.viewport = makeViewport(next, this.viewport.mapXinv(0, this.p5), this.viewport.mapXinv(this.p5.width, this.p5),
+                                       this.viewport.mapYinv(this.p5.height, this.p5), this.viewport.mapYinv(0, this.p5),
+                                       (time: number) => this.quantizationGrid.fundamentalAt(time).toNumber());
+      });
+
+      simpleKey('f - start a new fundamental section at the mouse  (shift+f - merge the section into the one before)', 'View', 70, () => {
+          const time = this.viewport.mapXinv(this.p5.mouseX, this.p5);
+          const before = this.snapshot();
+          if (this.p5.keyIsDown(this.p5.SHIFT)) {
+              this.quantizationGrid.removeChange(this.quantizationGrid.changeAt(time));
+          }
+          else {
+              this.quantizationGrid.addChange(this.quantizationGrid.snapX(time));
+          }
+          if (this.isModifiedSince(before)) {
+              this.history.push(before);
+          }
+      });
+
       this.commands.register('arrow keys - scroll', 'View', async (cx: Commands.Context) => {
           const keyCode = await cx.listen({
               keyDown: () => {
@@ -367,11 +1396,11 @@ export class NotesView {
           await cx.listen(cx.when(() => ! this.p5.keyIsDown(this.p5.CONTROL), cx.key(this.p5, 50)));
           if (this.p5.keyIsDown(this.p5.SHIFT)) {
               await cx.action(() => 
-                  this.quantizationGrid.setYSnap(this.quantizationGrid.getYSnap().mul(N(2)).normalize()));
+                  this.setFundamental(this.fundamental().mul(N(2)).normalize()));
           }
           else {
               await cx.action(() => 
-                  this.quantizationGrid.setYSnap(this.quantizationGrid.getYSnap().div(N(2)).normalize()));
+                  this.setFundamental(this.fundamental().div(N(2)).normalize()));
           }
       });
       
@@ -379,11 +1408,11 @@ export class NotesView {
           await cx.listen(cx.when(() => ! this.p5.keyIsDown(this.p5.CONTROL), cx.key(this.p5, 51)));
           if (this.p5.keyIsDown(this.p5.SHIFT)) {
               await cx.action(() => 
-                  this.quantizationGrid.setYSnap(this.quantizationGrid.getYSnap().mul(N(3)).normalize()));
+                  this.setFundamental(this.fundamental().mul(N(3)).normalize()));
           }
           else {
               await cx.action(() => 
-                  this.quantizationGrid.setYSnap(this.quantizationGrid.getYSnap().div(N(3)).normalize()));
+                  this.setFundamental(this.fundamental().div(N(3)).normalize()));
           }
       });
       
@@ -391,11 +1420,11 @@ export class NotesView {
           await cx.listen(cx.when(() => this.p5.keyIsDown(this.p5.CONTROL), cx.key(this.p5, 50)));
           if (this.p5.keyIsDown(this.p5.SHIFT)) {
               await cx.action(() => 
-                  this.quantizationGrid.setXSnap(this.quantizationGrid.getXSnap() * 2));
+                  this.quantizationGrid.setXSnap(this.quantizationGrid.getXSnap().mul(N(2)).normalize()));
           }
           else {
               await cx.action(() => 
-                  this.quantizationGrid.setXSnap(this.quantizationGrid.getXSnap() / 2));
+                  this.quantizationGrid.setXSnap(this.quantizationGrid.getXSnap().div(N(2)).normalize()));
           }
       });
       
@@ -403,14 +1432,32 @@ export class NotesView {
           await cx.listen(cx.when(() => this.p5.keyIsDown(this.p5.CONTROL), cx.key(this.p5, 51)));
           if (this.p5.keyIsDown(this.p5.SHIFT)) {
               await cx.action(() => 
-                  this.quantizationGrid.setXSnap(this.quantizationGrid.getXSnap() * 3));
+                  this.quantizationGrid.setXSnap(this.quantizationGrid.getXSnap().mul(N(3)).normalize()));
           }
           else {
               await cx.action(() => 
-                  this.quantizationGrid.setXSnap(this.quantizationGrid.getXSnap() / 3));
+                  this.quantizationGrid.setXSnap(this.quantizationGrid.getXSnap().div(N(3)).normalize()));
           }
       });
 
+      simpleKey('p - layer subdivisions of the time grid, e.g. 3:4:5', 'View', 80, () => {
+          const input = window.prompt('Numbers of equal parts to divide the time grid into together, such as 3:4:5',
+                                      this.quantizationGrid.getSubdivisions().join(':'));
+          if (input === null) {
+              return;
+          }
+          let subdivisions: number[] = [];
+          for (const component of input.split(':')) {
+              const n = Number(component.trim());
+              if (! component.trim().match(/^\d+$/) || n < 1 || n > FileType.MAX_SUBDIVISION) {
+                  alert('Subdivisions: I don\'t understand "' + component + '"');
+                  return;
+              }
+              subdivisions.push(n);
+          }
+          this.quantizationGrid.setSubdivisions(subdivisions);
+      });
+
       this.commands.register('ctrl+s - save to location bar', 'File', async (cx: Commands.Context) => {
           await cx.listen(cx.when(() => this.p5.keyIsDown(this.p5.CONTROL), cx.key(this.p5, 83)));
           await cx.action(() => {
@@ -418,6 +1465,124 @@ export class NotesView {
           });
       });
 
+      this.commands.register('ctrl+e - export .mid of the tracks heard  (ctrl+shift+e - render .wav)', 'File', async (cx: Commands.Context) => {
+          await cx.listen(cx.when(() => this.p5.keyIsDown(this.p5.CONTROL), cx.key(this.p5, 69)));
+          if (this.p5.keyIsDown(this.p5.SHIFT)) {
+              const buffer = await this.render();
+              await cx.action(() => {
+                  if (buffer === null) {
+                      alert('Render: There are no notes');
+                      return;
+                  }
+                  Utils.downloadFile('score.wav', WavFile.writeWavFile(buffer), 'audio/wav');
+              });
+              return;
+          }
+          await cx.action(() => {
+              // Mute, solo and volume apply as they do when playing.
+              const notes = this.notes.filter(n => isAudible(this.tracks[n.track], this.tracks));
+              const { data, dropped, clamped } = MidiFile.writeMidiFile(notes.map(n => ({
+                  startTime: n.startTime.toNumber(),
+                  endTime: n.endTime.toNumber(),
+                  freq: n.pitch.toNumber(),
+                  velocity: n.velocity * this.tracks[n.track].volume,
+                  glide: n.glideTimes(),
+              })), this.tempoMap, MIDI_EXPORT_CHANNELS);
+              Utils.downloadFile('score.mid', data, 'audio/midi');
+              if (dropped > 0) {
+                  alert('Export: Left out ' + dropped + ' of ' + notes.length + ' notes, with more than '
+                        + MIDI_EXPORT_CHANNELS + ' playing at once');
+              }
+              if (clamped > 0) {
+                  alert('Export: ' + clamped + ' notes glide further than the pitch bend range, and stop short');
+              }
+          });
+      });
+
+      this.commands.register('ctrl+o - import .mid into the active track (ratios of the fundamental)  (ctrl+shift+o - load Scala .scl as pitch grid)', 'File', async (cx: Commands.Context) => {
+          await cx.listen(cx.when(() => this.p5.keyIsDown(this.p5.CONTROL), cx.key(this.p5, 79)));
+          if (this.p5.keyIsDown(this.p5.SHIFT)) {
+              const scl = await Utils.openFile('.scl');
+              if (scl === null) {
+                  return;
+              }
+              await cx.action(() => {
+                  let scale: { description: string, degrees: ExactNumberType[] };
+                  try {
+                      scale = ScalaFile.readScl(new TextDecoder().decode(scl));
+                  }
+                  catch (e) {
+                      alert(e.message);
+                      return;
+                  }
+                  this.quantizationGrid.setPitchGrid(new ScalaGrid(scale.description, scale.degrees));
+              });
+              return;
+          }
+          const data = await Utils.openFile('.mid,.midi');
+          if (data === null) {
+              return;
+          }
+          const toleranceString = window.prompt('Pitch tolerance in cents', '10');
+          if (toleranceString === null) {
+              return;
+          }
+          const tolerance = Number(toleranceString);
+          if (! (tolerance >= 0)) {
+              alert('Import: Invalid tolerance "' + toleranceString + '"');
+              return;
+          }
+
+          await cx.action(() => {
+              let result: { notes: FileType.Note[], unmatched: number };
+              try {
+                  result = MidiFile.importMidiFile(data, (time: number) => this.quantizationGrid.fundamentalAt(time),
+                                                   tolerance, MIDI_IMPORT_MAX_TERM, this.activeTrack);
+              }
+              catch (e) {
+                  alert(e.message);
+                  return;
+              }
+              this.checkpoint();
+              this.notes = this.notes.filter(n => n.track !== this.activeTrack).concat(result.notes.map(Note.deserialize));
+              this.selectedNotes = [];
+              if (result.unmatched > 0) {
+                  alert('Import: ' + result.unmatched + ' of ' + result.notes.length
+                        + ' notes had no simple ratio within ' + tolerance + ' cents');
+              }
+          });
+      });
+
+
+      this.commands.register('ctrl+k - export Scala .scl of the selection or score  (ctrl+alt+k - its .kbm, ctrl+shift+k - without octave reduction)', 'File', async (cx: Commands.Context) => {
+          await cx.listen(cx.when(() => this.p5.keyIsDown(this.p5.CONTROL), cx.key(this.p5, 75)));
+          await cx.action(() => {
+              const notes = this.selectedNotes.length > 0 ? this.selectedNotes : this.notes;
+              const pitches = notes.flatMap(n => [n.pitch, ...n.glide.map(g => g.pitch)]);
+              if (pitches.length === 0) {
+                  alert('Scala export: There are no notes');
+                  return;
+              }
+              const reduceOctaves = ! this.p5.keyIsDown(this.p5.SHIFT);
+              // Ratios are to the fundamental of the section the notes start in.
+              const fundamental = this.quantizationGrid.fundamentalAt(Math.min(...notes.map(n => n.startTime.toNumber())));
+              const scale = ScalaFile.makeScale(pitches, fundamental, reduceOctaves);
+              if (scale.degrees.length === 0) {
+                  alert('Scala export: A scale needs at least two distinct pitches');
+                  return;
+              }
+              const unison = scale.base.div(fundamental).normalize();
+              const description = 'Pitches of score as ratios to ' + (unison.eq(1) ? '' : unison.toFraction() + ' of ')
+                  + 'the fundamental, ' + fundamental.toNumber().toFixed(6) + ' Hz';
+              // Browsers block a second download from one key press, so the keyboard mapping is a key of its own.
+              if (this.p5.keyIsDown(this.p5.ALT)) {
+                  Utils.downloadFile('score.kbm', ScalaFile.writeKbm('score', scale, reduceOctaves), 'text/plain');
+              }
+              else {
+                  Utils.downloadFile('score.scl', ScalaFile.writeScl('score', description, scale), 'text/plain');
+              }
+          });
+      });
 
       this.commands.register('shift+click - add/remove note from selection', 'Edit', async (cx: Commands.Context) => {
           const note = await cx.listen(
@@ -429,7 +1594,7 @@ export class NotesView {
           }
           else {
               await cx.action(() => {
-                  this.instrument.playNote(Tone.now(), 0.33, note.pitch.toNumber(), note.velocity);
+                  this.instrumentOf(note).playNote(Tone.now(), 0.33, note.pitch.toNumber(), note.velocity);
                   this.selectedNotes.push(note);
               });
           }
@@ -439,12 +1604,11 @@ export class NotesView {
       this.commands.register('drag handles - resize notes', 'hidden', async (cx: Commands.Context) => {
           const onHandle = (note: Note) => {
               const noteBox = this.getNoteBox(note);
-              if (noteBox.xf - 10 <= this.p5.mouseX && this.p5.mouseX <= noteBox.xf
-                    && noteBox.y0 <= this.p5.mouseY && this.p5.mouseY <= noteBox.yf) {
+              const onPitch = Math.abs(this.noteYAt(note, this.p5.mouseX) - this.p5.mouseY) <= NOTE_HEIGHT / 2;
+              if (noteBox.xf - 10 <= this.p5.mouseX && this.p5.mouseX <= noteBox.xf && onPitch) {
                   return 'RIGHT';
               }
-              else if (noteBox.x0 <= this.p5.mouseX && this.p5.mouseX <= noteBox.x0 + 10
-                    && noteBox.y0 <= this.p5.mouseY && this.p5.mouseY <= noteBox.yf) {
+              else if (noteBox.x0 <= this.p5.mouseX && this.p5.mouseX <= noteBox.x0 + 10 && onPitch) {
                   return 'LEFT';
               }
               else {
@@ -453,7 +1617,7 @@ export class NotesView {
           };
           const [note, handle] = await cx.listen({
               draw: () => {
-                  for (const note of this.notes) {
+                  for (const note of this.editableNotes()) {
                       if (onHandle(note)) {
                           this.p5.cursor('col-resize');
                           return { control: 'REPEAT' };
@@ -462,7 +1626,7 @@ export class NotesView {
                   return { control: 'REPEAT' };
               },
               mouseDown: () => {
-                  for (const note of this.notes) {
+                  for (const note of this.editableNotes()) {
                       const handle = onHandle(note);
                       if (handle) {
                           return { control: 'CONSUME', value: [note, handle] };
@@ -472,6 +1636,7 @@ export class NotesView {
               }
           });
           const startCoords = this.getMouseCoords();
+          const before = this.snapshot();
           const selection = this.selectedNotes.includes(note) ? this.selectedNotes : [note];
           const refTimes = selection.map(n => ({ startTime: n.startTime, endTime: n.endTime }));
 
@@ -481,21 +1646,21 @@ export class NotesView {
 
                   for (let i = 0; i < selection.length; i++) {
                       if (handle === 'LEFT') {
-                          const newStart = refTimes[i].startTime + coords.x - startCoords.x;
-                          if (newStart < selection[i].endTime) {
+                          const newStart = refTimes[i].startTime.add(coords.x.sub(startCoords.x)).normalize();
+                          if (newStart.lt(selection[i].endTime)) {
                               selection[i].startTime = newStart;
                           }
                           else {
-                              selection[i].startTime = refTimes[i].endTime - this.quantizationGrid.getXSnap();
+                              selection[i].startTime = refTimes[i].endTime.sub(this.quantizationGrid.getMinStep()).normalize();
                           }
                       }
                       else {
-                          const newEnd = refTimes[i].endTime + coords.x - startCoords.x;
-                          if (newEnd > selection[i].startTime) {
+                          const newEnd = refTimes[i].endTime.add(coords.x.sub(startCoords.x)).normalize();
+                          if (newEnd.gt(selection[i].startTime)) {
                               selection[i].endTime = newEnd;
                           }
                           else {
-                              selection[i].endTime = refTimes[i].startTime + this.quantizationGrid.getXSnap();
+                              selection[i].endTime = refTimes[i].startTime.add(this.quantizationGrid.getMinStep()).normalize();
                           }
                       }
                   }
@@ -504,6 +1669,9 @@ export class NotesView {
                   return { control: 'REPEAT' };
               },
               mouseUp: () => {
+                  if (this.isModifiedSince(before)) {
+                      this.history.push(before);
+                  }
                   return { control: 'CONSUME', value: undefined };
               },
           });
@@ -521,8 +1689,8 @@ export class NotesView {
           const initialMouse: Point = this.getMouseCoords();
           const translate = (note: Note, mouse: Point) => {
               let r = note.clone();
-              r.startTime += mouse.x - initialMouse.x;
-              r.endTime += mouse.x - initialMouse.x;
+              r.startTime = r.startTime.add(mouse.x.sub(initialMouse.x)).normalize();
+              r.endTime = r.endTime.add(mouse.x.sub(initialMouse.x)).normalize();
               return r;
           };
           await cx.listen({
@@ -547,16 +1715,78 @@ export class NotesView {
           });
           await cx.action(() => {
               const mouse = this.getMouseCoords();
+              this.checkpoint();
               this.selectedNotes = notes.map(n => translate(n, mouse));
               this.notes = this.notes.concat(this.selectedNotes);
           });
       });
 
       
+      this.commands.register('j - add glide point to note under mouse  (shift+j - remove glide)', 'Edit', async (cx: Commands.Context) => {
+          const note = await cx.listen({
+              keyDown: () => {
+                  const note = this.mouseOverNote();
+                  if (this.p5.keyCode == 74 && note !== null)  // j
+                      return { control: 'CONSUME', value: note };
+                  else
+                      return { control: 'REPEAT' };
+              }
+          });
+
+          if (this.p5.keyIsDown(this.p5.SHIFT)) {
+              await cx.action(() => {
+                  if (note.glide.length !== 0) {
+                      this.checkpoint();
+                      note.glide = [];
+                  }
+              });
+              return;
+          }
+
+          const withGlidePoint = () => {
+              const coords = this.getMouseCoords();
+              const position = coords.x.sub(note.startTime).div(note.endTime.sub(note.startTime)).normalize();
+              if (position.lte(0)) {
+                  return null;
+              }
+              const r = note.clone();
+              r.setGlidePoint(position.gt(1) ? N(1) : position, coords.y);
+              return r;
+          };
+          await cx.listen({
+              draw: () => {
+                  const r = withGlidePoint();
+                  if (r) {
+                      this.drawNote(r, true);
+                  }
+                  return { control: 'REPEAT' };
+              },
+              mouseDown: () => {
+                  return { control: 'CONSUME', value: undefined };
+              },
+              keyDown: () => {
+                  if (this.p5.keyCode == 27) { // esc
+                      return { control: 'CANCEL' };
+                  }
+                  else {
+                      return { control: 'REPEAT' };
+                  }
+              },
+          });
+          await cx.action(() => {
+              const r = withGlidePoint();
+              if (r) {
+                  this.checkpoint();
+                  note.glide = r.glide;
+              }
+          });
+      });
+
       this.commands.register('click and drag - select and move notes', 'hidden', async (cx: Commands.Context) => {
           const note = await cx.listen(this.listenSelectNote(cx));
-          this.instrument.playNote(Tone.now(), 0.33, note.pitch.toNumber(), note.velocity);
+          this.instrumentOf(note).playNote(Tone.now(), 0.33, note.pitch.toNumber(), note.velocity);
 
+          const before = this.snapshot();
           let lastMouse: Point = await cx.action(() => {
               if (! this.selectedNotes.includes(note)) {
                   this.selectedNotes = [note];
@@ -568,14 +1798,17 @@ export class NotesView {
               draw: () => {
                   const coords = this.getMouseCoords();
                   for (const n of this.selectedNotes) {
-                      n.startTime += coords.x - lastMouse.x;
-                      n.endTime += coords.x - lastMouse.x;
-                      n.pitch = n.pitch.mul(coords.y.div(lastMouse.y)).normalize();
+                      n.startTime = n.startTime.add(coords.x.sub(lastMouse.x)).normalize();
+                      n.endTime = n.endTime.add(coords.x.sub(lastMouse.x)).normalize();
+                      n.transpose(coords.y.div(lastMouse.y));
                   }
                   lastMouse = coords;
                   return { control: 'REPEAT', value: undefined };
               },
               mouseUp: () => {
+                  if (this.isModifiedSince(before)) {
+                      this.history.push(before);
+                  }
                   return { control: 'CONSUME', value: undefined };
               }
           });
@@ -587,13 +1820,14 @@ export class NotesView {
               const coords = this.getMouseCoords();
 
               this.selectedNotes = [];
-              this.instrument.playNote(Tone.now(), 0.33, coords.y.toNumber(), 0.75);
+              this.activeInstrument().playNote(Tone.now(), 0.33, coords.y.toNumber(), 0.75);
               return coords;
           });
 
           const mkNote = () => { 
               const coords = this.getMouseCoords();
-              return new Note(Math.min(startCoords.x, coords.x), Math.max(startCoords.x, coords.x), startCoords.y, 0.75);
+              return new Note(N.min(startCoords.x, coords.x), N.max(startCoords.x, coords.x), startCoords.y, 0.75,
+                              [], [], [], this.activeTrack);
           };
 
           await cx.listen({
@@ -603,7 +1837,8 @@ export class NotesView {
               },
               mouseUp: () => {
                   const note = mkNote();
-                  if (note.startTime != note.endTime) {
+                  if (! note.startTime.eq(note.endTime)) {
+                      this.checkpoint();
                       this.notes.push(note);
                       this.selectedNotes = [note];
                   }
@@ -628,9 +1863,9 @@ export class NotesView {
                   const minY = Math.min(startCoords.y, boxEnd.y);
                   const maxY = Math.max(startCoords.y, boxEnd.y);
               
-                  this.selectedNotes = Utils.dedup(startingNotes.concat(this.notes.filter(note => {
+                  this.selectedNotes = Utils.dedup(startingNotes.concat(this.editableNotes().filter(note => {
                       const pitch = note.pitch.toNumber();
-                      return (Utils.intervalIntersects(minX, maxX, note.startTime, note.endTime) 
+                      return (Utils.intervalIntersects(minX, maxX, note.startTime.toNumber(), note.endTime.toNumber()) 
                            && Utils.intervalIntersects(minY, maxY, pitch, pitch));
                   })));
 
@@ -664,11 +1899,66 @@ export class NotesView {
           };
   }
 
+  // Whether the mouse is over the notes, not a lane or off the canvas.
+  mouseOnNotes(): boolean {
+      return RULER_HEIGHT + TEMPO_LANE_HEIGHT <= this.p5.mouseY && this.p5.mouseY < this.p5.height
+          && 0 <= this.p5.mouseX && this.p5.mouseX < this.p5.width && this.expressionLaneUnderMouse() === null;
+  }
+
+  mouseOnRuler(): boolean {
+      return 0 <= this.p5.mouseY && this.p5.mouseY < RULER_HEIGHT
+          && 0 <= this.p5.mouseX && this.p5.mouseX < this.p5.width;
+  }
+
+  mouseOnTempoLane(): boolean {
+      return RULER_HEIGHT <= this.p5.mouseY && this.p5.mouseY < RULER_HEIGHT + TEMPO_LANE_HEIGHT
+          && 0 <= this.p5.mouseX && this.p5.mouseX < this.p5.width;
+  }
+
+  // The screen y of the top of an expression lane.
+  expressionLaneTop(expression: Expression): number {
+      return this.p5.height - (EXPRESSIONS.length - EXPRESSIONS.indexOf(expression)) * EXPRESSION_LANE_HEIGHT;
+  }
+
+  expressionLaneUnderMouse(): Expression {
+      if (this.p5.mouseX < 0 || this.p5.mouseX >= this.p5.width) {
+          return null;
+      }
+      return EXPRESSIONS.find(e => {
+          const top = this.expressionLaneTop(e);
+          return top <= this.p5.mouseY && this.p5.mouseY < top + EXPRESSION_LANE_HEIGHT;
+      }) || null;
+  }
+
+  mapExpression(expression: Expression, value: number): number {
+      const top = this.expressionLaneTop(expression);
+      return this.p5.map(value, 0, 1, top + EXPRESSION_LANE_HEIGHT - 4, top + 4);
+  }
+
+  // The lane's value at the mouse, to 7 bits like MIDI.
+  expressionValueAtMouse(expression: Expression): number {
+      const top = this.expressionLaneTop(expression);
+      const value = this.p5.map(this.p5.mouseY, top + EXPRESSION_LANE_HEIGHT - 4, top + 4, 0, 1, true);
+      return Math.round(value * 127) / 127;
+  }
+
+  tempoPointUnderMouse(): TempoPoint {
+      if (! this.mouseOnTempoLane()) {
+          return null;
+      }
+      for (const point of this.tempoMap.getPoints()) {
+          if (Math.abs(this.viewport.mapX(point.time.toNumber(), this.p5) - this.p5.mouseX) <= 5) {
+              return point;
+          }
+      }
+      return null;
+  }
+
   mouseOverNote(): Note {
-      for (const note of this.notes) {
+      for (const note of this.editableNotes()) {
           const noteBox = this.getNoteBox(note);
           if (noteBox.x0 <= this.p5.mouseX && this.p5.mouseX <= noteBox.xf 
-           && noteBox.y0 <= this.p5.mouseY && this.p5.mouseY <= noteBox.yf) {
+           && Math.abs(this.noteYAt(note, this.p5.mouseX) - this.p5.mouseY) <= NOTE_HEIGHT / 2) {
               return note;
           }
       }
@@ -680,25 +1970,225 @@ export class NotesView {
       this.commands.dispatch('keyDown');
   }
 
+  // Where playing and recording start: where the ruler was last clicked, or else the left edge of the screen.
+  private playStartTime(): number {
+      return this.playStart !== null ? this.playStart.toNumber() : this.viewport.mapXinv(0, this.p5);
+  }
+
   play(): Player {
-      return new Player(this.notes, this.tempo, this.instrument, this.viewport.mapXinv(0, this.p5));
+      this.warnBendRange();
+      this.player = new Player(this.notes, this.tempoMap.clone(), this.tracks, this.playStartTime(), this.loop);
+      return this.player;
+  }
+
+  // An MPE output can only bend a note so far from the key it starts on, so warns of glides that go further.
+  private warnBendRange(): void {
+      const clamped = this.notes.filter(n => {
+          const instrument = this.tracks[n.track].instrument;
+          return instrument instanceof MPEInstrument
+              && ! glideWithinBendRange(n.pitch.toNumber(), n.glide.map(g => g.pitch.toNumber()), instrument.bendRange);
+      });
+      if (clamped.length > 0) {
+          alert('Play: ' + clamped.length + ' notes glide further than the bend range of their MPE output, and will stop short');
+      }
+  }
+
+  // Renders the whole score with the tracks' web synths and the effects, whichever outputs the tracks have,
+  // faster than real time.
+  async render(): Promise<AudioBuffer> {
+      if (this.notes.length === 0) {
+          return null;
+      }
+      const notes = this.notes.map(n => n.clone());
+      const tempoMap = this.tempoMap.clone();
+      const tracks = this.tracks.map(t => Object.assign(t.clone(), { instrument: t.synth }));
+      const start = Math.min(0, ...notes.map(n => n.startTime.toNumber()));
+      const end = Math.max(...notes.map(n => n.endTime.toNumber()));
+      const effects = this.effects.getParams();
+      const release = Math.max(...tracks.map(t => t.synth.getParams().release));
+      const duration = tempoMap.toSeconds(end) - tempoMap.toSeconds(start) + release
+          + effectsTail(effects) + RENDER_TAIL;
+
+      const buffer = await Tone.Offline(async () => {
+          // The effects are made again in the offline context, and the notes scheduled into them all at once.
+          const chain = new EffectsChain(effects);
+          await chain.ready();
+          tracks.forEach(t => t.synth.setOutput(chain.input));
+          try {
+              new Player(notes, tempoMap, tracks, start, null, new OfflineScheduler());
+          }
+          finally {
+              tracks.forEach(t => t.synth.setOutput(this.effects.input));
+          }
+      }, duration);
+      return buffer.get();
   }
 
   getNoteBox(note: Note): { x0: number, y0: number, xf: number, yf: number } {
       return {
-          x0: this.viewport.mapX(note.startTime, this.p5),
+          x0: this.viewport.mapX(note.startTime.toNumber(), this.p5),
           y0: this.viewport.mapY(note.pitch.toNumber(), this.p5) - NOTE_HEIGHT / 2,
-          xf: this.viewport.mapX(note.endTime, this.p5), 
+          xf: this.viewport.mapX(note.endTime.toNumber(), this.p5), 
           yf: this.viewport.mapY(note.pitch.toNumber(), this.p5) + NOTE_HEIGHT / 2
       }
   }
 
+  // The screen y of the note's pitch at screen x, following its glide.
+  noteYAt(note: Note, x: number): number {
+      const noteBox = this.getNoteBox(note);
+      const position = noteBox.xf > noteBox.x0 ? (x - noteBox.x0) / (noteBox.xf - noteBox.x0) : 0;
+      return this.viewport.mapY(note.pitchAt(Math.max(0, Math.min(1, position))), this.p5);
+  }
+
   getRatioString(notes: Note[]) {
       const gcd = notes.reduce((accum,n) => N.gcd(accum, n.pitch).normalize(), N("0"));
       const nums = notes.map(n => n.pitch.div(gcd).toNumber());
       return [...new Set(nums)].sort((a,b) => a < b ? -1 : a > b ? 1 : 0).join(':');
   }
 
+  drawRuler(): void {
+      this.p5.colorMode(this.p5.RGB);
+      this.p5.noStroke();
+      this.p5.fill(224, 224, 224);
+      this.p5.rect(0, 0, this.p5.width, RULER_HEIGHT);
+
+      // bar numbers, with the meter where it changes, and beats as bar.beat where there is room
+      const minSpacing = this.viewport.mapXinv(RULER_LABEL_SPACING, this.p5) - this.viewport.mapXinv(0, this.p5);
+      const changes = this.meter.getChanges();
+      this.p5.textAlign(this.p5.LEFT);
+      for (const beat of this.meter.beatsIn(this.viewport.mapXinv(0, this.p5), this.viewport.mapXinv(this.p5.width, this.p5), minSpacing)) {
+          const x = this.viewport.mapX(beat.time, this.p5);
+          const change = beat.beat === 1 ? changes.find(c => c.time.toNumber() === beat.time) : undefined;
+          this.p5.stroke(96, 96, 96);
+          this.p5.strokeWeight(1);
+          this.p5.line(x, beat.beat === 1 ? 0 : RULER_HEIGHT / 2, x, RULER_HEIGHT);
+          this.p5.noStroke();
+          this.p5.fill(64, 64, 64);
+          this.p5.text((beat.beat === 1 ? String(beat.bar) : beat.bar + '.' + beat.beat)
+                       + (change ? '  ' + change.beats + '/' + change.unit : ''), x + 3, RULER_HEIGHT - 4);
+      }
+
+      if (this.playStart !== null) {
+          const x = this.viewport.mapX(this.playStart.toNumber(), this.p5);
+          this.p5.fill(0, 128, 0);
+          this.p5.triangle(x - 5, 0, x + 5, 0, x, RULER_HEIGHT / 2);
+      }
+  }
+
+  drawTempoLane(): void {
+      const top = RULER_HEIGHT;
+      const bottom = RULER_HEIGHT + TEMPO_LANE_HEIGHT;
+
+      this.p5.colorMode(this.p5.RGB);
+      this.p5.noStroke();
+      this.p5.fill(245, 245, 245);
+      this.p5.rect(0, top, this.p5.width, TEMPO_LANE_HEIGHT);
+
+      const points = this.tempoMap.getPoints();
+      const logTempos = points.map(point => Math.log(point.tempo.toNumber()));
+      const lo = Math.min(...logTempos) - Math.log(1.5);
+      const hi = Math.max(...logTempos) + Math.log(1.5);
+      const mapTempo = (tempo: number) => this.p5.map(Math.log(tempo), lo, hi, bottom - 4, top + 4);
+
+      this.p5.stroke(128, 0, 128);
+      this.p5.strokeWeight(2);
+      this.p5.noFill();
+      this.p5.beginShape();
+      for (let x = 0; x <= this.p5.width; x += 4) {
+          this.p5.vertex(x, mapTempo(this.tempoMap.tempoAt(this.viewport.mapXinv(x, this.p5))));
+      }
+      this.p5.endShape();
+
+      this.p5.textAlign(this.p5.LEFT);
+      for (const point of points) {
+          const x = this.viewport.mapX(point.time.toNumber(), this.p5);
+          const y = mapTempo(point.tempo.toNumber());
+          this.p5.stroke(128, 0, 128);
+          this.p5.fill(255, 255, 255);
+          this.p5.circle(x, y, 7);
+          this.p5.noStroke();
+          this.p5.fill(0, 0, 0);
+          this.p5.text(this.formatTempo(point.tempo) + (point.curve === 'step' ? '' : ' ' + point.curve), x + 6, top + 12);
+      }
+  }
+
+  drawExpressionLanes(): void {
+      for (const expression of EXPRESSIONS) {
+          const top = this.expressionLaneTop(expression);
+
+          this.p5.colorMode(this.p5.RGB);
+          this.p5.stroke(200, 200, 200);
+          this.p5.strokeWeight(1);
+          this.p5.fill(245, 245, 245);
+          this.p5.rect(0, top, this.p5.width, EXPRESSION_LANE_HEIGHT);
+          this.p5.noStroke();
+          this.p5.fill(128, 128, 128);
+          this.p5.textAlign(this.p5.LEFT);
+          this.p5.text(expression, 4, top + 12);
+
+          this.p5.noFill();
+          for (const note of this.notes) {
+              if (note[expression].length === 0 || ! this.tracks[note.track].visible) {
+                  continue;
+              }
+              if (this.selectedNotes.includes(note)) {
+                  this.p5.stroke(255, 128, 0);
+                  this.p5.strokeWeight(2);
+              }
+              else {
+                  this.p5.stroke(0, 102, 204);
+                  this.p5.strokeWeight(1);
+              }
+              const noteBox = this.getNoteBox(note);
+              this.p5.beginShape();
+              for (let x = noteBox.x0; x < noteBox.xf; x += 4) {
+                  this.p5.vertex(x, this.mapExpression(expression, note.expressionAt(expression, (x - noteBox.x0) / (noteBox.xf - noteBox.x0))));
+              }
+              this.p5.vertex(noteBox.xf, this.mapExpression(expression, note.expressionAt(expression, 1)));
+              this.p5.endShape();
+              for (const point of note.expressionTimes(expression)) {
+                  this.p5.circle(this.viewport.mapX(point.time, this.p5), this.mapExpression(expression, point.value), 4);
+              }
+          }
+      }
+  }
+
+  drawLoop(loop: LoopRegion): void {
+      if (! loop) {
+          return;
+      }
+      const x0 = this.viewport.mapX(loop.start.toNumber(), this.p5);
+      const xf = this.viewport.mapX(loop.end.toNumber(), this.p5);
+
+      this.p5.colorMode(this.p5.RGB);
+      this.p5.noStroke();
+      this.p5.fill(0, 160, 0, 32);
+      this.p5.rect(x0, RULER_HEIGHT, xf - x0, this.p5.height - RULER_HEIGHT);
+      this.p5.fill(0, 160, 0, 128);
+      this.p5.rect(x0, 0, xf - x0, RULER_HEIGHT);
+  }
+
+  drawRecording(): void {
+      const recording = this.recording;
+      const playhead = recording.clock.getPlayhead();
+      for (const held of recording.held.values()) {
+          const note = this.recordedNote(held, recording.clock, playhead);
+          if (note) {
+              this.drawNote(note, true);
+          }
+      }
+      if (recording.ownClock) {
+          this.drawPlayhead(playhead);
+      }
+
+      this.p5.colorMode(this.p5.RGB);
+      this.p5.noStroke();
+      this.p5.fill(255, 0, 0);
+      this.p5.circle(8, RULER_HEIGHT / 2, 8);
+      this.p5.textAlign(this.p5.LEFT);
+      this.p5.text(this.quantizeRecording ? 'REC' : 'REC (unquantized)', 16, RULER_HEIGHT - 4);
+  }
+
   drawPlayhead(playhead: number) {
       this.p5.colorMode(this.p5.RGB);
       this.p5.strokeWeight(2);
@@ -715,23 +2205,62 @@ export class NotesView {
         this.p5.fill(255*v, 128*v, 0);
       }
       else {
+        // In the track's colour, faint if the note can't be edited.
+        const colour = this.p5.color(this.tracks[note.track].colour);
+        const alpha = this.isEditable(note) ? 255 : 64;
         this.p5.strokeWeight(1);
-        this.p5.stroke(0, 0, 0);
-        this.p5.fill(0, v*204, v*255);
+        this.p5.stroke(0, 0, 0, alpha);
+        this.p5.fill(this.p5.red(colour)*v, this.p5.green(colour)*v, this.p5.blue(colour)*v, alpha);
       }
 
       const noteBox = this.getNoteBox(note);
-      this.p5.rect(noteBox.x0, noteBox.y0, noteBox.xf - noteBox.x0, noteBox.yf - noteBox.y0);
+      if (note.glide.length === 0) {
+          this.p5.rect(noteBox.x0, noteBox.y0, noteBox.xf - noteBox.x0, noteBox.yf - noteBox.y0);
+          return;
+      }
+
+      // Follow the glide closely enough that it curves on any viewport.
+      const xs: number[] = [];
+      for (let x = noteBox.x0; x < noteBox.xf; x += 4) {
+          xs.push(x);
+      }
+      xs.push(noteBox.xf);
+      this.p5.beginShape();
+      for (const x of xs) {
+          this.p5.vertex(x, this.noteYAt(note, x) - NOTE_HEIGHT / 2);
+      }
+      for (const x of xs.reverse()) {
+          this.p5.vertex(x, this.noteYAt(note, x) + NOTE_HEIGHT / 2);
+      }
+      this.p5.endShape(this.p5.CLOSE);
   }
 
   draw(): void {
     this.p5.cursor('auto');  // to be overridden by commands' draw maybe
-    this.quantizationGrid.drawGrid(this.p5, this.viewport);
+    this.quantizationGrid.drawGrid(this.p5, this.viewport, this.meter);
 
     this.p5.colorMode(this.p5.RGB);
 
     for (const note of this.notes) {
-        this.drawNote(note, false);
+        if (this.tracks[note.track].visible) {
+            this.drawNote(note, false);
+        }
+    }
+    this.viewport.drawLabels(this.p5);
+    if (this.mouseOnNotes()) {
+        this.quantizationGrid.drawNearby(this.p5, this.viewport);
+    }
+
+    this.drawRuler();
+    this.drawTempoLane();
+    this.drawExpressionLanes();
+    this.drawLoop(this.loop);
+
+    if (this.recording && ! this.recording.clock.isPlaying()) {
+        this.stopRecording();
+    }
+    if (this.recording) {
+        this.drawRecording();
     }
 
     this.commands.dispatch('draw');
@@ -0,0 +1,410 @@
+import p5 from "p5";
+import {Viewport} from "./Viewport";
+import * as FileType from "./FileType";
+import * as Utils from "./Utils";
+import {ExactNumberType, ExactNumber as N} from "exactnumber";
+
+const APPROXIMATION_MAX_TERM = 1000000;  // of the ratios standing in for irrational steps
+const MIN_LINE_SPACING = 1;  // pixels between grid lines, below which lines are left out
+const NEARBY_LABELS = 3;  // ratios labelled either side of the one under the mouse
+const LABEL_SPACING = 12;  // pixels between labels, at the least
+const MAX_CACHED_SECTIONS = 16;  // fundamentals whose grid lines are kept between frames
+
+// The pitches notes snap to, relative to the fundamental, and how they are drawn.
+export interface PitchGrid {
+    // The grid pitch nearest to freq.
+    snap(freq: number, fundamental: ExactNumberType): ExactNumberType;
+
+    // Draws the grid's lines other than the fundamental's, from x = left to right.
+    draw(p: p5, viewport: Viewport, fundamental: ExactNumberType, left: number, right: number): void;
+
+    // Labels the pitches near freq that it could snap to, beside x.
+    drawNearby(p: p5, viewport: Viewport, fundamental: ExactNumberType, freq: number, x: number): void;
+
+    serialize(): FileType.PitchGridSpec;
+}
+
+// An exact ratio within a millionth of a cent or so of x, the same one every time.
+function approximate(x: number): ExactNumberType {
+    const [p, q] = Utils.nearestRatio(x, APPROXIMATION_MAX_TERM);
+    return N(p, q);
+}
+
+function twoDivs(n: number): number {
+    let r = 0;
+    n = Math.floor(n);
+    while (n % 2 == 0) {
+        r++;
+        n = Math.floor(n / 2);
+    }
+    return r;
+}
+
+// The harmonics and subharmonics of the fundamental.
+export class HarmonicGrid implements PitchGrid {
+    snap(freq: number, fundamental: ExactNumberType): ExactNumberType {
+        const yn = N(String(freq));
+        if (fundamental.lte(yn)) {
+            return fundamental.mul(fundamental.inv().mul(yn).round()).normalize();
+        }
+        else {
+            return fundamental.div(fundamental.div(yn).round()).normalize();
+        }
+    }
+
+    draw(p: p5, viewport: Viewport, fundamental: ExactNumberType, left: number, right: number): void {
+        const y0 = fundamental.toNumber();
+
+        // upper lines, from the lowest in view, until they blur together
+        {
+            const yf = viewport.mapYinv(0, p);
+            const i0 = Math.max(2, Math.ceil(viewport.mapYinv(p.height, p) / y0));
+            for (let y = i0*y0, i = i0; y < yf; y += y0, i++) {
+              if (viewport.mapY(y - y0, p) - viewport.mapY(y, p) < MIN_LINE_SPACING) {
+                  break;
+              }
+              p.strokeWeight(3 * (twoDivs(i) + 1) / Math.log2(i));
+              p.stroke((256*Math.log2(i)) % 256, 128, 196);
+              p.line(left, viewport.mapY(y, p), right, viewport.mapY(y, p));
+            }
+        }
+
+        // lower lines
+        {
+            const yBottom = viewport.mapYinv(p.height, p);
+            for (let n = 2; y0 / n > 1 && y0 / n > yBottom; n++) {
+              if (viewport.mapY(y0 / n, p) - viewport.mapY(y0 / (n - 1), p) < MIN_LINE_SPACING) {
+                  break;
+              }
+              p.strokeWeight(3 * (twoDivs(n) + 1) / Math.log2(n));
+              p.stroke((256*Math.log2(n)) % 256, 128, 196);
+              p.line(left, viewport.mapY(y0 / n, p), right, viewport.mapY(y0 / n, p));
+            }
+        }
+    }
+
+    drawNearby(p: p5, viewport: Viewport, fundamental: ExactNumberType, freq: number, x: number): void {
+    }
+
+    serialize(): FileType.PitchGridSpec {
+        return { type: "harmonic" };
+    }
+}
+
+// A scale of steps from 1/1 up to but not including period, repeating at every period up and down.
+abstract class PeriodicGrid implements PitchGrid {
+    protected steps: ExactNumberType[];
+    protected period: ExactNumberType;
+
+    constructor(steps: ExactNumberType[], period: ExactNumberType) {
+        this.steps = steps;
+        this.period = period;
+    }
+
+    snap(freq: number, fundamental: ExactNumberType): ExactNumberType {
+        const period = this.period.toNumber();
+        const k = Math.floor(Math.log(freq / fundamental.toNumber()) / Math.log(period));
+        const base = fundamental.mul(this.period.pow(k));
+        const candidates = [...this.steps.map(s => base.mul(s)), base.mul(this.period)];
+        let nearest = candidates[0];
+        for (const c of candidates) {
+            if (Math.abs(Math.log(freq / c.toNumber())) < Math.abs(Math.log(freq / nearest.toNumber()))) {
+                nearest = c;
+            }
+        }
+        return nearest.normalize();
+    }
+
+    // Periods in grey, and the steps between them coloured by their place in the period.
+    draw(p: p5, viewport: Viewport, fundamental: ExactNumberType, left: number, right: number): void {
+        const f0 = fundamental.toNumber();
+        const period = this.period.toNumber();
+        const steps = this.steps.map(s => s.toNumber());
+        const k0 = Math.floor(Math.log(viewport.mapYinv(p.height, p) / f0) / Math.log(period));
+        const kf = Math.ceil(Math.log(viewport.mapYinv(0, p) / f0) / Math.log(period));
+
+        let lastY = Infinity;
+        for (let k = k0; k <= kf; k++) {
+            steps.forEach((step, i) => {
+                const y = viewport.mapY(f0 * Math.pow(period, k) * step, p);
+                if (y < 0 || y > p.height || (i !== 0 && lastY - y < MIN_LINE_SPACING)) {
+                    return;
+                }
+                lastY = y;
+                if (i === 0) {
+                    p.strokeWeight(2);
+                    p.stroke(0, 0, 50);
+                }
+                else {
+                    p.strokeWeight(1);
+                    p.stroke((256 * i / steps.length) % 256, 96, 196);
+                }
+                p.line(left, y, right, y);
+            });
+        }
+    }
+
+    drawNearby(p: p5, viewport: Viewport, fundamental: ExactNumberType, freq: number, x: number): void {
+    }
+
+    abstract serialize(): FileType.PitchGridSpec;
+}
+
+// divisions equal steps to the octave.
+export class EDOGrid extends PeriodicGrid {
+    private divisions: number;
+
+    constructor(divisions: number) {
+        super(Array.from({ length: divisions }, (_, i) => i === 0 ? N(1) : approximate(Math.pow(2, i / divisions))), N(2));
+        this.divisions = divisions;
+    }
+
+    serialize(): FileType.PitchGridSpec {
+        return { type: "edo", divisions: this.divisions };
+    }
+}
+
+// The degrees of a Scala scale, the last of which is its period.
+export class ScalaGrid extends PeriodicGrid {
+    private name: string;
+    private degrees: ExactNumberType[];
+
+    constructor(name: string, degrees: ExactNumberType[]) {
+        super([N(1), ...degrees.slice(0, -1)], degrees[degrees.length - 1]);
+        this.name = name;
+        this.degrees = degrees;
+    }
+
+    serialize(): FileType.PitchGridSpec {
+        return { type: "scala", name: this.name, degrees: this.degrees.map(d => d.toString()) };
+    }
+}
+
+// The numbers up to max with no prime factor above limit, in order.
+function smoothNumbers(limit: number, max: number): number[] {
+    let numbers = [1];
+    for (let prime = 2; prime <= limit; prime++) {
+        if (numbers.some(n => n > 1 && n < prime && prime % n === 0)) {
+            continue;  // not prime
+        }
+        const more = [];
+        for (const n of numbers) {
+            for (let m = n * prime; m <= max; m *= prime) {
+                more.push(m);
+            }
+        }
+        numbers = numbers.concat(more);
+    }
+    return numbers.sort((a, b) => a - b);
+}
+
+// A ratio n/d of the fundamental in lowest terms, with its Tenney height log2(n*d).
+type Ratio = { n: number, d: number, value: number, height: number };
+
+type RatioLine = { y: number, height: number };
+
+// A finite set of ratios of the fundamental, snapped to by nearness and drawn simpler ratios in thicker lines,
+// as the harmonic grid draws harmonics divisible by higher powers of two.
+abstract class RatioSetGrid implements PitchGrid {
+    private ratios: Ratio[];  // in order of value
+    private byHeight: Ratio[];  // simplest first, for drawing
+    private maxHeight: number;
+
+    // The lines drawn for each fundamental, valid while the view they were found in stays the same.
+    private lines: Map<number, RatioLine[]> = new Map();
+    private linesView: { viewport: Viewport, top: number, bottom: number, height: number } = null;
+
+    constructor(pairs: [number, number][]) {
+        this.ratios = pairs.filter(([n, d]) => Utils.gcd(n, d) === 1)
+            .map(([n, d]) => ({ n: n, d: d, value: n / d, height: Math.log2(n * d) }));
+        this.ratios.sort((a, b) => a.value - b.value);
+        this.byHeight = [...this.ratios].sort((a, b) => a.height - b.height);
+        this.maxHeight = Math.max(1, ...this.ratios.map(r => r.height));
+    }
+
+    // The index of the ratio nearest r in log frequency.
+    private nearestIndex(r: number): number {
+        let lo = 0;
+        let hi = this.ratios.length - 1;
+        while (hi - lo > 1) {
+            const mid = Math.floor((lo + hi) / 2);
+            if (this.ratios[mid].value <= r) {
+                lo = mid;
+            }
+            else {
+                hi = mid;
+            }
+        }
+        return Math.abs(Math.log(r / this.ratios[lo].value)) <= Math.abs(Math.log(r / this.ratios[hi].value)) ? lo : hi;
+    }
+
+    snap(freq: number, fundamental: ExactNumberType): ExactNumberType {
+        const nearest = this.ratios[this.nearestIndex(freq / fundamental.toNumber())];
+        return fundamental.mul(N(nearest.n, nearest.d)).normalize();
+    }
+
+    // Simpler ratios in thicker lines, leaving out those that would land on a simpler one.
+    draw(p: p5, viewport: Viewport, fundamental: ExactNumberType, left: number, right: number): void {
+        for (const { y, height } of this.visibleLines(p, viewport, fundamental.toNumber())) {
+            p.strokeWeight(Math.max(0.5, 3 * (1 - height / (this.maxHeight + 1))));
+            p.stroke((256 * height / this.maxHeight) % 256, 128, 196);
+            p.line(left, y, right, y);
+        }
+    }
+
+    // The lines to draw above fundamental f0, worked out again only when the view moves.
+    private visibleLines(p: p5, viewport: Viewport, f0: number): RatioLine[] {
+        const top = viewport.mapYinv(0, p);
+        const bottom = viewport.mapYinv(p.height, p);
+        const view = this.linesView;
+        if (view === null || view.viewport !== viewport || view.top !== top || view.bottom !== bottom
+            || view.height !== p.height) {
+            this.lines.clear();
+            this.linesView = { viewport: viewport, top: top, bottom: bottom, height: p.height };
+        }
+
+        let lines = this.lines.get(f0);
+        if (lines === undefined) {
+            if (this.lines.size >= MAX_CACHED_SECTIONS) {
+                this.lines.clear();
+            }
+            lines = [];
+            const taken = new Set<number>();
+            for (const { value, height } of this.byHeight) {
+                if (height === 0) {
+                    continue;  // the fundamental
+                }
+                const y = viewport.mapY(f0 * value, p);
+                const row = Math.round(y);
+                if (y < 0 || y > p.height || taken.has(row) || taken.has(row - 1) || taken.has(row + 1)) {
+                    continue;
+                }
+                taken.add(row);
+                lines.push({ y: y, height: height });
+            }
+            this.lines.set(f0, lines);
+        }
+        return lines;
+    }
+
+    // The ratio freq would snap to in black, and its neighbours in grey.
+    drawNearby(p: p5, viewport: Viewport, fundamental: ExactNumberType, freq: number, x: number): void {
+        const f0 = fundamental.toNumber();
+        const nearest = this.nearestIndex(freq / f0);
+        const yOf = (i: number) => viewport.mapY(f0 * this.ratios[i].value, p);
+        const label = (i: number) => p.text(this.ratios[i].n + '/' + this.ratios[i].d, x + 12, yOf(i) + 4);
+
+        p.colorMode(p.RGB);
+        p.noStroke();
+        p.textAlign(p.LEFT);
+        p.fill(0, 0, 0);
+        label(nearest);
+
+        // outwards from the nearest, far enough apart to read
+        p.fill(128, 128, 128);
+        for (const step of [-1, 1]) {
+            let lastY = yOf(nearest);
+            let count = 0;
+            for (let i = nearest + step; 0 <= i && i < this.ratios.length && count < NEARBY_LABELS; i += step) {
+                if (Math.abs(yOf(i) - lastY) >= LABEL_SPACING) {
+                    label(i);
+                    lastY = yOf(i);
+                    count++;
+                }
+            }
+        }
+    }
+
+    abstract serialize(): FileType.PitchGridSpec;
+}
+
+// Every ratio n/d with no prime factor above limit and a Tenney height log2(n*d) of at most height.
+export class PrimeLimitGrid extends RatioSetGrid {
+    private limit: number;
+    private height: number;
+
+    constructor(limit: number, height: number) {
+        const max = Math.floor(Math.pow(2, height));
+        const numbers = smoothNumbers(limit, max);
+        const pairs: [number, number][] = [];
+        for (const n of numbers) {
+            for (const d of numbers) {
+                if (n * d > max) {
+                    break;
+                }
+                pairs.push([n, d]);
+            }
+        }
+        super(pairs);
+        this.limit = limit;
+        this.height = height;
+    }
+
+    serialize(): FileType.PitchGridSpec {
+        return { type: "prime-limit", limit: this.limit, height: this.height };
+    }
+}
+
+// Every ratio n/d with n at most maxNumerator and d at most maxDenominator, so 5/3 or 7/4 of the fundamental too.
+export class RatioGrid extends RatioSetGrid {
+    private maxNumerator: number;
+    private maxDenominator: number;
+
+    constructor(maxNumerator: number, maxDenominator: number) {
+        const pairs: [number, number][] = [];
+        for (let n = 1; n <= maxNumerator; n++) {
+            for (let d = 1; d <= maxDenominator; d++) {
+                pairs.push([n, d]);
+            }
+        }
+        super(pairs);
+        this.maxNumerator = maxNumerator;
+        this.maxDenominator = maxDenominator;
+    }
+
+    serialize(): FileType.PitchGridSpec {
+        return { type: "ratio", numerator: this.maxNumerator, denominator: this.maxDenominator };
+    }
+}
+
+// Every ratio n/d with a Tenney height log2(n*d) of at most height, whatever its primes.
+export class TenneyGrid extends RatioSetGrid {
+    private height: number;
+
+    constructor(height: number) {
+        const max = Math.floor(Math.pow(2, height));
+        const pairs: [number, number][] = [];
+        for (let n = 1; n <= max; n++) {
+            for (let d = 1; n * d <= max; d++) {
+                pairs.push([n, d]);
+            }
+        }
+        super(pairs);
+        this.height = height;
+    }
+
+    serialize(): FileType.PitchGridSpec {
+        return { type: "tenney", height: this.height };
+    }
+}
+
+export function pitchGridFromFile(spec: FileType.PitchGridSpec): PitchGrid {
+    if (spec.type === "edo") {
+        return new EDOGrid(spec.divisions);
+    }
+    else if (spec.type === "scala") {
+        return new ScalaGrid(spec.name, spec.degrees.map(d => N(d)));
+    }
+    else if (spec.type === "prime-limit") {
+        return new PrimeLimitGrid(spec.limit, spec.height);
+    }
+    else if (spec.type === "ratio") {
+        return new RatioGrid(spec.numerator, spec.denominator);
+    }
+    else if (spec.type === "tenney") {
+        return new TenneyGrid(spec.height);
+    }
+    else {
+        return new HarmonicGrid();
+    }
+}
@@ -0,0 +1,63 @@
+import * as FileType from "./FileType";
+
+const STORAGE_KEY = 'synthPresets';
+
+// Named synth parameters, kept in the browser's local storage.
+export class PresetLibrary {
+    private presets: Map<string, FileType.SynthParams>;
+
+    constructor() {
+        this.presets = new Map();
+        const stored = window.localStorage.getItem(STORAGE_KEY);
+        if (stored !== null) {
+            try {
+                this.addAll(JSON.parse(stored));
+            }
+            catch (e) {
+                console.warn("Ignoring stored synth presets", e);
+            }
+        }
+    }
+
+    names(): string[] {
+        return [...this.presets.keys()].sort();
+    }
+
+    has(name: string): boolean {
+        return this.presets.has(name);
+    }
+
+    get(name: string): FileType.SynthParams {
+        return this.presets.get(name);
+    }
+
+    // Replaces any preset of the same name.
+    save(name: string, params: FileType.SynthParams): void {
+        this.presets.set(name, params);
+        this.store();
+    }
+
+    remove(name: string): void {
+        this.presets.delete(name);
+        this.store();
+    }
+
+    serialize(): FileType.Presets {
+        return {
+            version: FileType.PRESETS_VERSION,
+            presets: this.names().map(name => ({ name: name, synth: this.presets.get(name) })),
+        };
+    }
+
+    // Adds the presets of a presets file, replacing those of the same names. Throws if the file is invalid.
+    addAll(doc: object): void {
+        for (const preset of FileType.loadPresets(doc)) {
+            this.presets.set(preset.name, preset.synth);
+        }
+        this.store();
+    }
+
+    private store(): void {
+        window.localStorage.setItem(STORAGE_KEY, JSON.stringify(this.serialize()));
+    }
+}
@@ -1,99 +1,200 @@
 import {Viewport} from "./Viewport";
 import p5 from "p5";
 import {ExactNumberType, ExactNumber as N} from "exactnumber";
+import {PitchGrid, HarmonicGrid} from "./PitchGrid";
+import {MeterMap} from "./Meter";
+import * as FileType from "./FileType";
+
+// The fundamental from time until the next change.
+export type FundamentalChange = {
+    time: ExactNumberType,
+    fundamental: ExactNumberType,
+};
+
+const MIN_LINE_SPACING = 2;  // pixels between time lines, below which a subdivision isn't drawn
 
 export class QuantizationGrid {
-    private xsnap: number;
-    private ysnap: ExactNumberType;
+    private xsnap: ExactNumberType;
+    private subdivisions: number[];  // of xsnap, layered together, in increasing order
+    private fundamentals: FundamentalChange[];  // in order of time, the first at time 0
+    private pitchGrid: PitchGrid;
 
-    constructor(xsnap: number, ysnap: ExactNumberType) {
+    constructor(xsnap: ExactNumberType, fundamentals: FundamentalChange[], pitchGrid: PitchGrid = new HarmonicGrid(),
+                subdivisions: number[] = [1]) {
         this.xsnap = xsnap;
-        this.ysnap = ysnap;
+        this.setSubdivisions(subdivisions);
+        this.setFundamentals(fundamentals);
+        this.pitchGrid = pitchGrid;
     }
 
-    setXSnap(xsnap: number) {
+    setXSnap(xsnap: ExactNumberType) {
         this.xsnap = xsnap;
     }
 
-    getXSnap(): number {
+    getXSnap(): ExactNumberType {
         return this.xsnap;
     }
 
-    snapX(x: number): number {
-        if (this.xsnap == 0)
-            return x;
+    setSubdivisions(subdivisions: number[]) {
+        this.subdivisions = [...new Set(subdivisions)].sort((a, b) => a - b);
+    }
+
+    getSubdivisions(): number[] {
+        return this.subdivisions;
+    }
+
+    // The shortest step of any subdivision.
+    getMinStep(): ExactNumberType {
+        return this.xsnap.div(this.subdivisions[this.subdivisions.length - 1]).normalize();
+    }
+
+    // Snaps to the nearest line of any subdivision.
+    snapX(x: number): ExactNumberType {
+        const xn = N(String(x));
+        if (this.xsnap.isZero())
+            return xn;
 
-        return this.xsnap * Math.round(x/this.xsnap);
+        let nearest: ExactNumberType = null;
+        for (const n of this.subdivisions) {
+            const step = this.xsnap.div(n);
+            const snapped = step.mul(xn.div(step).round()).normalize();
+            if (nearest === null || snapped.sub(xn).abs().lt(nearest.sub(xn).abs())) {
+                nearest = snapped;
+            }
+        }
+        return nearest;
     }
 
-    setYSnap(ysnap: ExactNumberType) {
-        this.ysnap = ysnap;
+    setFundamentals(fundamentals: FundamentalChange[]) {
+        this.fundamentals = [...fundamentals].sort((a, b) => a.time.cmp(b.time));
     }
 
-    getYSnap(): ExactNumberType {
-        return this.ysnap;
+    getFundamentals(): FundamentalChange[] {
+        return this.fundamentals;
     }
 
-    snapY(y: number): ExactNumberType {
-        const yn = N(String(y));
-        if (this.ysnap.lte(yn)) {
-            return this.ysnap.mul(this.ysnap.inv().mul(yn).round()).normalize();
+    // The change in effect at time, or the first if time is before it.
+    changeAt(time: number): FundamentalChange {
+        let result = this.fundamentals[0];
+        for (const change of this.fundamentals) {
+            if (change.time.toNumber() <= time) {
+                result = change;
+            }
         }
-        else {
-            return this.ysnap.div(this.ysnap.div(yn).round()).normalize();
+        return result;
+    }
+
+    fundamentalAt(time: number): ExactNumberType {
+        return this.changeAt(time).fundamental;
+    }
+
+    // Sets the fundamental of the section time is in.
+    setFundamentalAt(time: number, fundamental: ExactNumberType) {
+        const change = this.changeAt(time);
+        this.fundamentals = this.fundamentals.map(c => c === change ? { time: c.time, fundamental: fundamental } : c);
+    }
+
+    // Starts a section at time with the fundamental already in effect there.
+    addChange(time: ExactNumberType) {
+        if (time.isNegative() || this.fundamentals.some(c => c.time.eq(time))) {
+            return;
+        }
+        this.setFundamentals([...this.fundamentals, { time: time, fundamental: this.fundamentalAt(time.toNumber()) }]);
+    }
+
+    // The first change can't be removed.
+    removeChange(change: FundamentalChange) {
+        if (change === this.fundamentals[0]) {
+            return;
         }
+        this.fundamentals = this.fundamentals.filter(c => c !== change);
+    }
+
+    setPitchGrid(pitchGrid: PitchGrid) {
+        this.pitchGrid = pitchGrid;
+    }
+
+    getPitchGrid(): PitchGrid {
+        return this.pitchGrid;
     }
 
-    drawGrid(p: p5, viewport: Viewport) {
+    // Snaps to the grid of the fundamental in effect at time x.
+    snapY(y: number, x: number): ExactNumberType {
+        return this.pitchGrid.snap(y, this.fundamentalAt(x));
+    }
+
+    drawGrid(p: p5, viewport: Viewport, meter: MeterMap) {
         p.colorMode(p.HSB);
 
-        p.stroke(0, 0, 85);
         p.strokeWeight(1);
-        
-        if (this.xsnap != 0) {
+
+        // each subdivision in its own colour, leaving the lines it shares with xsnap grey
+        if (! this.xsnap.isZero()) {
             const xBoundLeft = viewport.mapXinv(0, p);
-            const x0 = Math.ceil(xBoundLeft / this.xsnap) * this.xsnap;
             const xf = viewport.mapXinv(p.width, p);
-            for (let x = x0; x < xf; x += this.xsnap) {
-              p.line(viewport.mapX(x, p), 0, viewport.mapX(x, p), p.height);
-            }
+            this.subdivisions.forEach((n, j) => {
+                const step = this.xsnap.toNumber() / n;
+                if (viewport.mapX(step, p) - viewport.mapX(0, p) < MIN_LINE_SPACING) {
+                    return;
+                }
+                const i0 = Math.ceil(xBoundLeft / step);
+                for (let i = i0; i * step < xf; i++) {
+                  if (i % n === 0) {
+                      p.stroke(0, 0, 85);
+                  }
+                  else {
+                      p.stroke(360 * j / this.subdivisions.length, 40, 95);
+                  }
+                  p.line(viewport.mapX(i * step, p), 0, viewport.mapX(i * step, p), p.height);
+                }
+            });
         }
 
-        // fundamental line
-        p.stroke(0, 0, 0);
-        p.strokeWeight(3);
-        p.line(0, viewport.mapY(this.ysnap.toNumber(), p), p.width, viewport.mapY(this.ysnap.toNumber(), p));
-
-        // upper lines
-        {
-            const y0 = this.ysnap.toNumber();
-            const yf = viewport.mapYinv(0, p);
-            for (let y = 2*y0, i = 2; y < yf; y += y0, i++) {
-              p.strokeWeight(3 * (this.twoDivs(i) + 1) / Math.log2(i));
-              p.stroke((256*Math.log2(i)) % 256, 128, 196);
-              p.line(0, viewport.mapY(y, p), p.width, viewport.mapY(y, p));
+        // bar lines, stronger than any subdivision
+        p.stroke(0, 0, 60);
+        p.strokeWeight(2);
+        const minSpacing = viewport.mapXinv(MIN_LINE_SPACING, p) - viewport.mapXinv(0, p);
+        for (const beat of meter.beatsIn(viewport.mapXinv(0, p), viewport.mapXinv(p.width, p), minSpacing)) {
+            if (beat.beat === 1) {
+                p.line(viewport.mapX(beat.time, p), 0, viewport.mapX(beat.time, p), p.height);
             }
         }
 
-        // lower lines
-        {
-            const yBottom = viewport.mapYinv(p.height, p);
-            const y0 = this.ysnap.toNumber();
-            for (let n = 2; y0 / n > 1 && y0 / n > yBottom; n++) {
-              p.strokeWeight(3 * (this.twoDivs(n) + 1) / Math.log2(n));
-              p.stroke((256*Math.log2(n)) % 256, 128, 196);
-              p.line(0, viewport.mapY(y0 / n, p), p.width, viewport.mapY(y0 / n, p));
+        // each section's lines over its own time range, the first reaching back before time 0
+        this.fundamentals.forEach((change, i) => {
+            const next = this.fundamentals[i + 1];
+            const left = i === 0 ? 0 : Math.max(0, viewport.mapX(change.time.toNumber(), p));
+            const right = next ? Math.min(p.width, viewport.mapX(next.time.toNumber(), p)) : p.width;
+            if (right <= left) {
+                return;
             }
-        }
+
+            this.pitchGrid.draw(p, viewport, change.fundamental, left, right);
+
+            // fundamental line
+            const y = viewport.mapY(change.fundamental.toNumber(), p);
+            p.stroke(0, 0, 0);
+            p.strokeWeight(3);
+            p.line(left, y, right, y);
+
+            if (i > 0) {
+                p.strokeWeight(2);
+                p.line(left, 0, left, p.height);
+            }
+        });
     }
 
-    twoDivs(n: number): number {
-        let r = 0;
-        n = Math.floor(n);
-        while (n % 2 == 0) {
-            r++;
-            n = Math.floor(n / 2);
-        }
-        return r;
+    // Labels the pitches near the mouse that it could snap to.
+    drawNearby(p: p5, viewport: Viewport) {
+        const fundamental = this.fundamentalAt(viewport.mapXinv(p.mouseX, p));
+        this.pitchGrid.drawNearby(p, viewport, fundamental, viewport.mapYinv(p.mouseY, p), p.mouseX);
+    }
+
+    serializeFundamentals(): FileType.FundamentalChange[] {
+        return this.fundamentals.map(c => ({ time: c.time.toString(), fundamental: c.fundamental.toString() }));
+    }
+
+    static deserializeFundamentals(changes: FileType.FundamentalChange[]): FundamentalChange[] {
+        return changes.map(c => ({ time: N(c.time), fundamental: N(c.fundamental) }));
     }
 }
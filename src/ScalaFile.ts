@@ -0,0 +1,124 @@
+import { ExactNumber as N, ExactNumberType } from "exactnumber";
+import * as Utils from "./Utils";
+
+const MIDDLE_NOTE = 60;
+const CENTS_MAX_TERM = 1000000;  // of the ratios read for degrees given in cents
+
+export type Scale = {
+    degrees: ExactNumberType[],  // ascending ratios above 1/1, the last of which is the period
+    base: ExactNumberType,  // frequency of 1/1
+};
+
+// Multiplies or divides by 2 until the ratio is in [1,2).
+function octaveReduce(ratio: ExactNumberType): ExactNumberType {
+    while (ratio.lt(1)) {
+        ratio = ratio.mul(2);
+    }
+    while (ratio.gte(2)) {
+        ratio = ratio.div(2);
+    }
+    return ratio.normalize();
+}
+
+function uniqueSorted(ratios: ExactNumberType[]): ExactNumberType[] {
+    const sorted = [...ratios].sort((a, b) => a.cmp(b));
+    return sorted.filter((r, i) => i === 0 || ! r.eq(sorted[i-1]));
+}
+
+// The scale of the given pitches as ratios to the fundamental.
+// Octave reduced, it repeats at 2/1 from the fundamental. Otherwise every pitch is its own degree,
+// above a 1/1 that is the fundamental moved down whole octaves to the lowest pitch.
+export function makeScale(pitches: ExactNumberType[], fundamental: ExactNumberType, reduceOctaves: boolean): Scale {
+    let ratios = pitches.map(p => p.div(fundamental).normalize());
+    if (reduceOctaves) {
+        ratios = uniqueSorted(ratios.map(octaveReduce)).filter(r => r.gt(1));
+        return { degrees: [...ratios, N(2)], base: fundamental };
+    }
+
+    let base = fundamental;
+    let unison = N(1);
+    const lowest = N.min(...ratios);
+    while (unison.gt(lowest)) {
+        base = base.div(2).normalize();
+        unison = unison.div(2).normalize();
+    }
+    return { degrees: uniqueSorted(ratios.map(r => r.div(unison).normalize())).filter(r => r.gt(1)), base: base };
+}
+
+export function writeScl(name: string, description: string, scale: Scale): string {
+    return [
+        '! ' + name + '.scl',
+        '!',
+        description,
+        ' ' + scale.degrees.length,
+        '!',
+        ...scale.degrees.map(r => ' ' + r.toFraction()),
+    ].join('\n') + '\n';
+}
+
+// Maps successive keys up from middle C to successive degrees, with middle C sounding 1/1.
+// Scales that don't repeat are left unmapped past their last degree.
+export function writeKbm(name: string, scale: Scale, repeats: boolean): string {
+    const lastNote = repeats ? 127 : Math.min(127, MIDDLE_NOTE + scale.degrees.length);
+    return [
+        '! ' + name + '.kbm',
+        '!',
+        '! Size of map:',
+        '0',
+        '! First MIDI note number to retune:',
+        repeats ? '0' : String(MIDDLE_NOTE),
+        '! Last MIDI note number to retune:',
+        String(lastNote),
+        '! Middle note where the first entry of the mapping is mapped to:',
+        String(MIDDLE_NOTE),
+        '! Reference note for which frequency is given:',
+        String(MIDDLE_NOTE),
+        '! Frequency to tune the above note to:',
+        scale.base.toNumber().toFixed(6),
+        '! Scale degree to consider as formal octave:',
+        String(scale.degrees.length),
+        '! Mapping.',
+    ].join('\n') + '\n';
+}
+
+// The description and degrees of a .scl file. Degrees in cents are read as the nearest ratio
+// with terms up to CENTS_MAX_TERM. Throws if the file is invalid or its degrees don't rise from 1/1.
+export function readScl(text: string): { description: string, degrees: ExactNumberType[] } {
+    const lines = text.split(/\r?\n/).filter(line => ! line.startsWith('!'));
+    if (lines.length < 2) {
+        throw Error('Scala: expected a description and a number of notes');
+    }
+    const count = Number(lines[1].trim().split(/\s+/)[0]);
+    if (! Number.isInteger(count) || count < 1) {
+        throw Error('Scala: expected a number of notes, not "' + lines[1].trim() + '"');
+    }
+
+    const degrees: ExactNumberType[] = [];
+    for (let i = 0; i < count; i++) {
+        const line = lines[2 + i];
+        if (line === undefined || line.trim() === '') {
+            throw Error('Scala: expected ' + count + ' notes, found ' + i);
+        }
+        const token = line.trim().split(/\s+/)[0];
+        let degree: ExactNumberType;
+        if (token.includes('.')) {
+            const cents = Number(token);
+            if (! isFinite(cents)) {
+                throw Error('Scala: I don\'t understand "' + token + '"');
+            }
+            const [p, q] = Utils.nearestRatio(Math.pow(2, cents / 1200), CENTS_MAX_TERM);
+            degree = N(p, q);
+        }
+        else if (/^\d+(\/\d+)?$/.test(token) && ! /(^|\/)0+$/.test(token)) {
+            degree = N(token).normalize();
+        }
+        else {
+            throw Error('Scala: I don\'t understand "' + token + '"');
+        }
+        if (degree.lte(degrees.length > 0 ? degrees[degrees.length - 1] : N(1))) {
+            throw Error('Scala: degree ' + (i + 1) + ' is not above the one before');
+        }
+        degrees.push(degree);
+    }
+    return { description: lines[0].trim(), degrees: degrees };
+}
@@ -3,7 +3,14 @@ import * as Tone from "tone";
 
 type Event = { time: number, action: (when: number) => void };
 
-export class Scheduler {
+export interface EventScheduler {
+    schedule(when: number, action: (when: number) => void): void;
+
+    // Stop running events, then call cleanup with the time they stopped.
+    stop(cleanup: (when: number) => void): void;
+}
+
+export class Scheduler implements EventScheduler {
     private clock: Tone.Clock;
     private resolution: number;
     private heap: Heap<Event>;
@@ -55,3 +62,24 @@ export class Scheduler {
     }
 }
 
+// Runs every event as soon as it is scheduled, for rendering in an offline context
+// where all of the audio is scheduled before any of it is rendered.
+export class OfflineScheduler implements EventScheduler {
+    private stopped: boolean;
+
+    constructor() {
+        this.stopped = false;
+    }
+
+    stop(cleanup: (when: number) => void): void {
+        this.stopped = true;
+        cleanup(Tone.now());
+    }
+
+    schedule(when: number, action: (when: number) => void) {
+        if (! this.stopped) {
+            action(when);
+        }
+    }
+}
+
@@ -1,19 +1,24 @@
 import p5 from "p5";
-import { initializeMidiAccess, MPEInstrument, ToneSynth } from './Instrument';
+import { initializeMidiAccess, MPEInstrument, MTSInstrument, MPEZone, MPEZoneSide, VoiceStealing, VOICE_STEALING } from './Instrument';
+import { initializeMidiInputs } from './MidiInput';
 import { Viewport } from "./Viewport";
 import { NotesView, Player } from "./NotesView";
 import { ExactNumberType, ExactNumber as N } from "exactnumber";
 
+type MidiOutputMode = 'mpe' | 'mts';
+
+// Returns a function that shows the output named as in the select, for when another track becomes active.
 async function createMidiOutputSelect(
-  onMidi: (output: WebMidi.MIDIOutput, description: HTMLElement) => void,
-  onWebSynth: (description: HTMLElement) => void
-) {
+  onMidi: (output: WebMidi.MIDIOutput, mode: MidiOutputMode, description: HTMLElement) => void,
+  onWebSynth: (description: HTMLElement) => void,
+  onSampler: (description: HTMLElement) => void
+): Promise<(name: string) => void> {
   const outputs = await initializeMidiAccess();
   const container = document.querySelector<HTMLDivElement>("#output-select-container");
 
   if (!container) {
     console.error("Output select container not found");
-    return;
+    return () => {};
   }
 
   const select = document.createElement("select");
@@ -28,26 +33,37 @@ async function createMidiOutputSelect(
   webSynthOption.textContent = "Web Synth";
   select.appendChild(webSynthOption);
 
+  const samplerOption = document.createElement("option");
+  samplerOption.value = "sampler";
+  samplerOption.textContent = "Sampler";
+  select.appendChild(samplerOption);
+
   outputs.forEach((output: WebMidi.MIDIOutput, outputKey: string) => {
-    const option = document.createElement("option");
-    option.value = outputKey;
-    option.textContent = output.name;
-    select.appendChild(option);
+    for (const mode of ['mpe', 'mts']) {
+      const option = document.createElement("option");
+      option.value = mode + ":" + outputKey;
+      option.textContent = output.name + " (" + mode.toUpperCase() + ")";
+      select.appendChild(option);
+    }
   });
 
-  select.addEventListener("change", (e) => {
-    const target = e.target as HTMLSelectElement;
-    const outputName = target.value;
-
+  const choose = (outputName: string) => {
     description.innerHTML = "";
     if (outputName === "web_synth") {
       onWebSynth(description);
+    } else if (outputName === "sampler") {
+      onSampler(description);
     } else {
-      const midiOutput = outputs.get(outputName);
+      const [mode, outputKey] = outputName.split(/:(.*)/);
+      const midiOutput = outputs.get(outputKey);
       if (midiOutput) {
-        onMidi(midiOutput, description);
+        onMidi(midiOutput, mode as MidiOutputMode, description);
       }
     }
+  };
+
+  select.addEventListener("change", (e) => {
+    choose((e.target as HTMLSelectElement).value);
   });
 
   if (select.value == 'web_synth') {
@@ -56,11 +72,128 @@ async function createMidiOutputSelect(
   else {
       select.value = "web_synth";
   }
+
+  return (name: string) => {
+    const option = Array.from(select.options).find(o => o.textContent === name);
+    if (option) {
+      select.value = option.value;
+      choose(option.value);
+    }
+  };
+}
+
+async function createMidiInputSelect(onInput: (input: WebMidi.MIDIInput) => void) {
+  const inputs = await initializeMidiInputs();
+  const container = document.querySelector<HTMLDivElement>("#input-select-container");
+
+  if (!container) {
+    console.error("Input select container not found");
+    return;
+  }
+
+  const select = document.createElement("select");
+  container.appendChild(select);
+
+  const noneOption = document.createElement("option");
+  noneOption.value = "none";
+  noneOption.textContent = "None";
+  select.appendChild(noneOption);
+
+  inputs.forEach((input: WebMidi.MIDIInput, inputKey: string) => {
+    const option = document.createElement("option");
+    option.value = inputKey;
+    option.textContent = input.name;
+    select.appendChild(option);
+  });
+
+  select.addEventListener("change", (e) => {
+    const target = e.target as HTMLSelectElement;
+    onInput(inputs.get(target.value) || null);
+  });
+
+  select.value = "none";
+}
+
+// Input types that take typed text.
+const TEXT_INPUT_TYPES = ['text', 'number', 'search', 'email', 'url', 'tel', 'password'];
+
+// Whether keys typed while element has focus are text for it rather than commands.
+function isTextEntry(element: Element | null): boolean {
+  return element instanceof HTMLTextAreaElement
+      || (element instanceof HTMLInputElement && TEXT_INPUT_TYPES.includes(element.type));
+}
+
+// A button that shows and hides a settings panel.
+function createPanelToggle(label: string, panel: HTMLElement): HTMLElement {
+  const button = document.createElement("input");
+  button.setAttribute("type", "button");
+  button.setAttribute("value", label);
+  button.addEventListener("click", () => {
+    panel.style.display = panel.style.display === "none" ? "block" : "none";
+  });
+  return button;
+}
+
+// Controls for the zone, bend range and voice stealing of an MPE output, calling onChange with every change.
+function createMPESettings(
+  zone: MPEZone,
+  stealing: VoiceStealing,
+  onChange: (zone: MPEZone, stealing: VoiceStealing) => void
+): HTMLElement {
+  const span = document.createElement("span");
+
+  const makeSelect = (label: string, values: string[], value: string) => {
+    span.appendChild(document.createTextNode(" " + label + ": "));
+    const select = document.createElement("select");
+    for (const v of values) {
+      const option = document.createElement("option");
+      option.value = v;
+      option.textContent = v;
+      select.appendChild(option);
+    }
+    select.value = value;
+    span.appendChild(select);
+    return select;
+  };
+
+  const makeNumber = (label: string, min: number, max: number, step: number, value: number) => {
+    span.appendChild(document.createTextNode(" " + label + ": "));
+    const input = document.createElement("input");
+    input.setAttribute("type", "number");
+    input.setAttribute("min", String(min));
+    input.setAttribute("max", String(max));
+    input.setAttribute("step", String(step));
+    input.style.width = "4em";
+    input.value = String(value);
+    span.appendChild(input);
+    return input;
+  };
+
+  const sideSelect = makeSelect("Zone", ["lower", "upper"], zone.side);
+  const channelsInput = makeNumber("Channels", 1, 15, 1, zone.numChannels);
+  const bendInput = makeNumber("Bend range", 1, 96, 0.01, zone.bendRange);
+  const stealingSelect = makeSelect("Voice stealing", VOICE_STEALING, stealing);
+
+  const update = () => {
+    const numChannels = Math.round(Number(channelsInput.value));
+    const bendRange = Number(bendInput.value);
+    if (! (numChannels >= 1 && numChannels <= 15 && bendRange >= 1 && bendRange <= 96)) {
+      return;
+    }
+    onChange({ side: sideSelect.value as MPEZoneSide, numChannels: numChannels, bendRange: bendRange },
+             stealingSelect.value as VoiceStealing);
+  };
+  for (const control of [sideSelect, channelsInput, bendInput, stealingSelect]) {
+    control.addEventListener("change", update);
+  }
+  return span;
 }
 
 const sketch = (p: p5) => {
   let notesView: NotesView;
   let player: Player;
+  let mpeZone: MPEZone = { side: 'lower', numChannels: 12, bendRange: 2 };
+  let voiceStealing: VoiceStealing = 'oldest';
 
   p.setup = () => {
     const canvas = p.createCanvas(p.windowWidth - 50, p.windowHeight - 100);
@@ -72,6 +205,19 @@ const sketch = (p: p5) => {
 
     p.frameRate(24);
 
+    // Selects, checkboxes, sliders and buttons give up the focus once used, so keys go back to the commands
+    // instead of also working the control.
+    document.addEventListener('change', (e: Event) => {
+      if (e.target instanceof HTMLElement && ! isTextEntry(e.target)) {
+        e.target.blur();
+      }
+    });
+    document.addEventListener('click', (e: MouseEvent) => {
+      if (e.target instanceof HTMLButtonElement || (e.target instanceof HTMLInputElement && e.target.type === 'button')) {
+        e.target.blur();
+      }
+    });
+
     const loadHash = () => {
         try {
             const jsonStr = Buffer.from(document.location.hash, "base64").toString()
@@ -88,37 +234,71 @@ const sketch = (p: p5) => {
         loadHash();
     });
     
+    // Each handler shows the output's settings for the active track, and plays the track on the output
+    // unless it already does.
     createMidiOutputSelect(
-        (output: WebMidi.MIDIOutput, description: HTMLElement) => {
+        (output: WebMidi.MIDIOutput, mode: MidiOutputMode, description: HTMLElement) => {
             const container = document.getElementById('synth-params-container');
             container.style.display = 'none';
+            document.getElementById('effects-container').style.display = 'none';
 
-            description.innerHTML = "<i>- 15 voice MPE<i>";
-
-            notesView.setInstrument(new MPEInstrument(output, 12));
+            const name = output.name + " (" + mode.toUpperCase() + ")";
+            if (mode === 'mts') {
+                description.innerHTML = "<i>- 128 voice MTS on channel 1</i>";
+                if (notesView.getInstrumentName() !== name) {
+                    notesView.setInstrument(new MTSInstrument(output), name);
+                }
+            }
+            else {
+                description.appendChild(createMPESettings(mpeZone, voiceStealing, (zone: MPEZone, stealing: VoiceStealing) => {
+                    mpeZone = zone;
+                    voiceStealing = stealing;
+                    notesView.setInstrument(new MPEInstrument(output, mpeZone, voiceStealing), name);
+                }));
+                if (notesView.getInstrumentName() !== name) {
+                    notesView.setInstrument(new MPEInstrument(output, mpeZone, voiceStealing), name);
+                }
+            }
         },
         (description: HTMLElement) => {
-            const toneSynth = new ToneSynth();
+            const toneSynth = notesView.getSynth();
             const container = document.getElementById('synth-params-container');
+            const shown = container.style.display;
             container.innerHTML = '';
             container.appendChild(toneSynth.getParamsHTML());
-            container.style.display = 'none';
-            notesView.setInstrument(toneSynth);
+            container.style.display = shown === 'block' ? 'block' : 'none';
+            const effectsContainer = document.getElementById('effects-container');
+            effectsContainer.innerHTML = '';
+            effectsContainer.appendChild(notesView.getEffects().getParamsHTML());
+            effectsContainer.style.display = 'none';
+            if (notesView.getInstrumentName() !== "Web Synth") {
+                notesView.setInstrument(toneSynth, "Web Synth");
+            }
 
             description.innerHTML = '';
-            const button = document.createElement('input');
-            button.setAttribute('type', 'button');
-            button.setAttribute('value', 'Synth Params');
-            button.addEventListener('click', () => {
-                if (container.style.display === 'none') {
-                    container.style.display = 'block';
-                }
-                else {
-                    container.style.display = 'none';
-                }
-            });
-            description.appendChild(button);
-        });
+            description.appendChild(createPanelToggle('Synth Params', container));
+            description.appendChild(createPanelToggle('Effects', effectsContainer));
+        },
+        (description: HTMLElement) => {
+            const sampler = notesView.getSampler();
+            const container = document.getElementById('synth-params-container');
+            container.innerHTML = '';
+            container.appendChild(sampler.getParamsHTML());
+            container.style.display = 'block';
+            const effectsContainer = document.getElementById('effects-container');
+            effectsContainer.innerHTML = '';
+            effectsContainer.appendChild(notesView.getEffects().getParamsHTML());
+            effectsContainer.style.display = 'none';
+            if (notesView.getInstrumentName() !== "Sampler") {
+                notesView.setInstrument(sampler, "Sampler");
+            }
+
+            description.innerHTML = '';
+            description.appendChild(createPanelToggle('Samples', container));
+            description.appendChild(createPanelToggle('Effects', effectsContainer));
+        }).then(showOutput => notesView.setActiveTrackListener(showOutput));
+
+    createMidiInputSelect((input: WebMidi.MIDIInput) => notesView.setMidiInput(input));
 
   };
 
@@ -127,11 +307,15 @@ const sketch = (p: p5) => {
   };
 
   p.keyPressed = () => {
+    // Keys typed into a track name or other text field are for the field, not commands.
+    if (isTextEntry(document.activeElement)) {
+      return;
+    }
     notesView.handleKeyPressed();
       
     switch (p.keyCode) {
         case 32: { // space
-            if (player) {
+            if (player && player.isPlaying()) {
                 player.stop();
                 player = null;
             }
@@ -147,7 +331,7 @@ const sketch = (p: p5) => {
     p.background(255);
 
     notesView.draw();
-    if (player) {
+    if (player && player.isPlaying()) {
         notesView.drawPlayhead(player.getPlayhead());
     }
   };
@@ -0,0 +1,168 @@
+import {ExactNumberType, ExactNumber as N} from "exactnumber";
+import * as FileType from "./FileType";
+
+// How the tempo moves from a point to the next one.
+export type TempoCurve = 'step' | 'linear' | 'exponential';
+
+export const TEMPO_CURVES = FileType.TEMPO_CURVES as TempoCurve[];
+
+// Tempos are in score time units per second. The first point is always at time 0.
+export type TempoPoint = {
+    time: ExactNumberType,
+    tempo: ExactNumberType,
+    curve: TempoCurve,
+};
+
+export class TempoMap {
+    private points: TempoPoint[];
+
+    // Floating point copies of the points, and the seconds elapsed from time 0 to each point.
+    private times: number[];
+    private tempos: number[];
+    private offsets: number[];
+
+    constructor(points: TempoPoint[]) {
+        this.points = [...points].sort((a, b) => a.time.cmp(b.time));
+        this.update();
+    }
+
+    static constant(tempo: ExactNumberType): TempoMap {
+        return new TempoMap([{ time: N(0), tempo: tempo, curve: 'step' }]);
+    }
+
+    clone(): TempoMap {
+        return new TempoMap(this.points);
+    }
+
+    getPoints(): TempoPoint[] {
+        return this.points;
+    }
+
+    getInitialTempo(): ExactNumberType {
+        return this.points[0].tempo;
+    }
+
+    // Adds a point, replacing any point at the same time.
+    setPoint(point: TempoPoint): void {
+        if (point.time.isNegative()) {
+            return;
+        }
+        this.points = this.points.filter(p => ! p.time.eq(point.time));
+        this.points.push(point);
+        this.points.sort((a, b) => a.time.cmp(b.time));
+        this.update();
+    }
+
+    // The first point can't be removed.
+    removePoint(point: TempoPoint): void {
+        if (point === this.points[0]) {
+            return;
+        }
+        this.points = this.points.filter(p => p !== point);
+        this.update();
+    }
+
+    // The last point before time, or the first point if there is none.
+    pointBefore(time: ExactNumberType): TempoPoint {
+        let result = this.points[0];
+        for (const p of this.points) {
+            if (p.time.lt(time)) {
+                result = p;
+            }
+        }
+        return result;
+    }
+
+    tempoAt(time: number): number {
+        const i = this.segmentAt(time);
+        if (i === this.points.length - 1 || this.points[i].curve === 'step' || time < this.times[i]) {
+            return this.tempos[i];
+        }
+        const u = (time - this.times[i]) / (this.times[i+1] - this.times[i]);
+        if (this.points[i].curve === 'linear') {
+            return this.tempos[i] + (this.tempos[i+1] - this.tempos[i]) * u;
+        }
+        else {
+            return this.tempos[i] * Math.pow(this.tempos[i+1] / this.tempos[i], u);
+        }
+    }
+
+    // Seconds from score time 0 to the given score time.
+    toSeconds(time: number): number {
+        const i = this.segmentAt(time);
+        return this.offsets[i] + this.secondsInto(i, time - this.times[i]);
+    }
+
+    // The score time the given number of seconds after score time 0.
+    fromSeconds(seconds: number): number {
+        let i = 0;
+        while (i < this.points.length - 1 && this.offsets[i+1] <= seconds) {
+            i++;
+        }
+        const s = seconds - this.offsets[i];
+        const t0 = this.tempos[i];
+        if (i === this.points.length - 1 || this.points[i].curve === 'step' || s < 0) {
+            return this.times[i] + s * t0;
+        }
+
+        const d = this.times[i+1] - this.times[i];
+        const t1 = this.tempos[i+1];
+        if (t0 === t1) {
+            return this.times[i] + s * t0;
+        }
+        if (this.points[i].curve === 'linear') {
+            const tempo = t0 * Math.exp(s * (t1 - t0) / d);
+            return this.times[i] + (tempo - t0) * d / (t1 - t0);
+        }
+        else {
+            const logRatio = Math.log(t1 / t0);
+            return this.times[i] - d * Math.log(1 - s * t0 * logRatio / d) / logRatio;
+        }
+    }
+
+    serialize(): FileType.TempoPoint[] {
+        return this.points.map(p => ({ time: p.time.toString(), tempo: p.tempo.toString(), curve: p.curve }));
+    }
+
+    static deserialize(points: FileType.TempoPoint[]): TempoMap {
+        return new TempoMap(points.map(p => ({ time: N(p.time), tempo: N(p.tempo), curve: p.curve as TempoCurve })));
+    }
+
+    private segmentAt(time: number): number {
+        let i = 0;
+        while (i < this.points.length - 1 && this.times[i+1] <= time) {
+            i++;
+        }
+        return i;
+    }
+
+    // Seconds taken by the first dt time units of segment i.
+    private secondsInto(i: number, dt: number): number {
+        const t0 = this.tempos[i];
+        if (i === this.points.length - 1 || this.points[i].curve === 'step' || dt < 0) {
+            return dt / t0;
+        }
+        const d = this.times[i+1] - this.times[i];
+        const t1 = this.tempos[i+1];
+        if (t0 === t1) {
+            return dt / t0;
+        }
+        if (this.points[i].curve === 'linear') {
+            const tempo = t0 + (t1 - t0) * dt / d;
+            return d / (t1 - t0) * Math.log(tempo / t0);
+        }
+        else {
+            const logRatio = Math.log(t1 / t0);
+            return d / (t0 * logRatio) * (1 - Math.pow(t1 / t0, -dt / d));
+        }
+    }
+
+    private update(): void {
+        this.times = this.points.map(p => p.time.toNumber());
+        this.tempos = this.points.map(p => p.tempo.toNumber());
+        this.offsets = [0];
+        for (let i = 0; i < this.points.length - 1; i++) {
+            this.offsets.push(this.offsets[i] + this.secondsInto(i, this.times[i+1] - this.times[i]));
+        }
+    }
+}
@@ -6,3 +6,82 @@ export function dedup<T>(xs: T[]): T[] {
     return [...new Set(xs)];
 }
 
+
+export function gcd(a: number, b: number): number {
+    return b === 0 ? a : gcd(b, a % b);
+}
+
+export function downloadFile(filename: string, data: string | Uint8Array, mimeType: string): void {
+    const url = URL.createObjectURL(new Blob([data as BlobPart], { type: mimeType }));
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = filename;
+    a.click();
+    URL.revokeObjectURL(url);
+}
+
+// The fraction with the smallest denominator (then numerator) in [lo, hi], 0 < lo <= hi,
+// or null if it would need a numerator or denominator above maxTerm.
+export function simplestRatioBetween(lo: number, hi: number, maxTerm: number): [number, number] {
+    const ceil = Math.ceil(lo);
+    if (ceil <= hi) {
+        return ceil <= maxTerm ? [ceil, 1] : null;
+    }
+    const floor = Math.floor(lo);
+    const inner = simplestRatioBetween(1 / (hi - floor), 1 / (lo - floor), maxTerm);
+    if (inner === null) {
+        return null;
+    }
+    const [p, q] = inner;
+    const num = floor * p + q;
+    return num <= maxTerm ? [num, p] : null;
+}
+
+// The last continued fraction convergent of x whose terms stay within maxTerm.
+export function nearestRatio(x: number, maxTerm: number): [number, number] {
+    let [p0, q0, p1, q1] = [1, 0, Math.floor(x), 1];
+    let rest = x - Math.floor(x);
+    while (rest > 1e-12) {
+        rest = 1 / rest;
+        const a = Math.floor(rest);
+        rest -= a;
+        const [p2, q2] = [a * p1 + p0, a * q1 + q0];
+        if (p2 > maxTerm || q2 > maxTerm) {
+            break;
+        }
+        [p0, q0, p1, q1] = [p1, q1, p2, q2];
+    }
+    return p1 === 0 ? [1, maxTerm] : [p1, q1];
+}
+
+// Lets the user pick a local file. Resolves to null if the dialog is cancelled.
+export function openFile(accept: string): Promise<ArrayBuffer> {
+    return new Promise((resolve, reject) => {
+        const input = document.createElement('input');
+        input.type = 'file';
+        input.accept = accept;
+        input.addEventListener('change', () => {
+            if (input.files.length === 0) {
+                resolve(null);
+            }
+            else {
+                input.files[0].arrayBuffer().then(resolve, reject);
+            }
+        });
+        input.addEventListener('cancel', () => resolve(null));
+        input.click();
+    });
+}
+
+// Lets the user pick any number of local files. Resolves to none if the dialog is cancelled.
+export function openFiles(accept: string): Promise<File[]> {
+    return new Promise((resolve) => {
+        const input = document.createElement('input');
+        input.type = 'file';
+        input.accept = accept;
+        input.multiple = true;
+        input.addEventListener('change', () => resolve(Array.from(input.files)));
+        input.addEventListener('cancel', () => resolve([]));
+        input.click();
+    });
+}
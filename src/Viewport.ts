@@ -1,6 +1,17 @@
 import p5 from "p5";
+import * as FileType from "./FileType";
+
+// How pitch maps to the y axis: evenly in log frequency, evenly in Hz so that harmonics are evenly
+// spaced, or evenly in log frequency relative to the fundamental, which stays put as it changes.
+export type PitchAxis = 'log' | 'linear' | 'ratio';
+
+export const PITCH_AXES = FileType.PITCH_AXES as PitchAxis[];
+
+const MIN_LINEAR_FREQ = 1;  // Hz at the bottom of a linear viewport, at the lowest
+const LABEL_SPACING = 12;  // pixels between the ratio labels, at the least
 
 export interface Viewport {
+  readonly pitchAxis: PitchAxis;
   mapX(x: number, p: p5): number;
   mapXinv(x: number, p: p5): number;
   mapY(y: number, p: p5): number;
@@ -9,21 +20,28 @@ export interface Viewport {
   translateY(ratio: number): void;
   zoomX(ratio: number, about: number): void;
   zoomY(ratio: number, about: number): void;
+  drawLabels(p: p5): void;
+  serialize(): FileType.Viewport;
 }
 
-export class LogViewport {
-  private minX: number;
-  private minNote: number;
-  private maxX: number;
-  private maxNote: number;
+function noteToFreq(note: number): number {
+  return 440 * Math.pow(2, (note - 69) / 12);
+}
 
-  constructor(minX: number, minNote: number, maxX: number, maxNote: number) {
+function freqToNote(freq: number): number {
+  return 12 * Math.log2(freq / 440) + 69;
+}
+
+// Time maps evenly to x in every viewport.
+abstract class TimeViewport {
+  protected minX: number;
+  protected maxX: number;
+
+  constructor(minX: number, maxX: number) {
     this.minX = minX;
-    this.minNote = minNote;
     this.maxX = maxX;
-    this.maxNote = maxNote;
   }
-  
+
   mapX(x: number, p: p5): number {
     return p.map(x, this.minX, this.maxX, 0, p.width);
   }
@@ -31,49 +49,198 @@ export class LogViewport {
   mapXinv(x: number, p: p5): number {
     return p.map(x, 0, p.width, this.minX, this.maxX);
   }
-  
-  private noteToFreq(note: number): number {
-      return 440 * Math.pow(2, (note - 69) / 12);
-  }
-  private freqToNote(freq: number): number {
-    return 12 * Math.log2(freq / 440) + 69;
-  }
-  
-  mapY(y: number, p: p5): number {
-    return p.map(this.freqToNote(y), this.minNote, this.maxNote, p.height, 0);
-  }
 
-  mapYinv(y: number, p:p5): number {
-    return this.noteToFreq(p.map(y, p.height, 0, this.minNote, this.maxNote));
-  }
-  
   translateX(ratio: number): void {
     const dx = (this.maxX - this.minX) * ratio;
     this.minX += dx;
     this.maxX += dx;
   }
 
-  translateY(ratio: number): void {
-    const dnote = (this.maxNote - this.minNote) * ratio;
-    this.minNote += dnote;
-    this.maxNote += dnote;
-  }
-
   zoomX(ratio: number, about: number) {
       const oldWidth = this.maxX - this.minX;
       const newWidth = oldWidth / ratio;
-      
+
       this.minX = about - (about - this.minX) * newWidth / oldWidth;
       this.maxX = this.minX + newWidth;
   }
 
+  drawLabels(p: p5): void {
+  }
+}
+
+export class LogViewport extends TimeViewport implements Viewport {
+  readonly pitchAxis = 'log';
+  private minNote: number;
+  private maxNote: number;
+
+  constructor(minX: number, minNote: number, maxX: number, maxNote: number) {
+    super(minX, maxX);
+    this.minNote = minNote;
+    this.maxNote = maxNote;
+  }
+
+  serialize(): FileType.Viewport {
+    return { minX: this.minX, maxX: this.maxX, minNote: this.minNote, maxNote: this.maxNote, pitchAxis: this.pitchAxis };
+  }
+
+  mapY(y: number, p: p5): number {
+    return p.map(freqToNote(y), this.minNote, this.maxNote, p.height, 0);
+  }
+
+  mapYinv(y: number, p:p5): number {
+    return noteToFreq(p.map(y, p.height, 0, this.minNote, this.maxNote));
+  }
+
+  translateY(ratio: number): void {
+    const dnote = (this.maxNote - this.minNote) * ratio;
+    this.minNote += dnote;
+    this.maxNote += dnote;
+  }
+
   zoomY(ratio: number, about: number) {
-      about = this.freqToNote(about);
+      about = freqToNote(about);
 
       const oldHeight = this.maxNote - this.minNote;
       const newHeight = oldHeight / ratio;
-      
+
       this.minNote = about - (about - this.minNote) * newHeight / oldHeight;
       this.maxNote = this.minNote + newHeight;
   }
 }
+
+// Frequency maps evenly to y, so the harmonics of the fundamental are evenly spaced.
+export class LinearViewport extends TimeViewport implements Viewport {
+  readonly pitchAxis = 'linear';
+  private minFreq: number;
+  private maxFreq: number;
+
+  constructor(minX: number, minFreq: number, maxX: number, maxFreq: number) {
+    super(minX, maxX);
+    this.minFreq = Math.max(minFreq, MIN_LINEAR_FREQ);
+    this.maxFreq = this.minFreq + (maxFreq - minFreq);
+  }
+
+  serialize(): FileType.Viewport {
+    return { minX: this.minX, maxX: this.maxX, minNote: freqToNote(this.minFreq), maxNote: freqToNote(this.maxFreq),
+             pitchAxis: this.pitchAxis };
+  }
+
+  mapY(y: number, p: p5): number {
+    return p.map(y, this.minFreq, this.maxFreq, p.height, 0);
+  }
+
+  mapYinv(y: number, p: p5): number {
+    return p.map(y, p.height, 0, this.minFreq, this.maxFreq);
+  }
+
+  // Moves the range, keeping its bottom above MIN_LINEAR_FREQ.
+  private setFreqRange(minFreq: number, height: number): void {
+    this.minFreq = Math.max(minFreq, MIN_LINEAR_FREQ);
+    this.maxFreq = this.minFreq + height;
+  }
+
+  translateY(ratio: number): void {
+    const height = this.maxFreq - this.minFreq;
+    this.setFreqRange(this.minFreq + height * ratio, height);
+  }
+
+  zoomY(ratio: number, about: number) {
+      const oldHeight = this.maxFreq - this.minFreq;
+      const newHeight = oldHeight / ratio;
+      this.setFreqRange(about - (about - this.minFreq) * newHeight / oldHeight, newHeight);
+  }
+}
+
+// Log frequency relative to the fundamental in effect at the left edge, labelled with the ratios of the grid's lines.
+// The range is kept in octaves from the fundamental, so changing the fundamental, or scrolling into a section
+// with another, moves the notes instead.
+export class RatioViewport extends TimeViewport implements Viewport {
+  readonly pitchAxis = 'ratio';
+  private minOctave: number;
+  private maxOctave: number;
+  private fundamental: (time: number) => number;
+
+  // fundamental gives the fundamental in effect at a time.
+  constructor(minX: number, minFreq: number, maxX: number, maxFreq: number, fundamental: (time: number) => number) {
+    super(minX, maxX);
+    this.fundamental = fundamental;
+    this.minOctave = Math.log2(minFreq / this.leftFundamental());
+    this.maxOctave = Math.log2(maxFreq / this.leftFundamental());
+  }
+
+  private leftFundamental(): number {
+    return this.fundamental(this.minX);
+  }
+
+  serialize(): FileType.Viewport {
+    return { minX: this.minX, maxX: this.maxX,
+             minNote: freqToNote(this.leftFundamental() * Math.pow(2, this.minOctave)),
+             maxNote: freqToNote(this.leftFundamental() * Math.pow(2, this.maxOctave)),
+             pitchAxis: this.pitchAxis };
+  }
+
+  mapY(y: number, p: p5): number {
+    return p.map(Math.log2(y / this.leftFundamental()), this.minOctave, this.maxOctave, p.height, 0);
+  }
+
+  mapYinv(y: number, p: p5): number {
+    return this.leftFundamental() * Math.pow(2, p.map(y, p.height, 0, this.minOctave, this.maxOctave));
+  }
+
+  translateY(ratio: number): void {
+    const doctave = (this.maxOctave - this.minOctave) * ratio;
+    this.minOctave += doctave;
+    this.maxOctave += doctave;
+  }
+
+  zoomY(ratio: number, about: number) {
+      const aboutOctave = Math.log2(about / this.leftFundamental());
+
+      const oldHeight = this.maxOctave - this.minOctave;
+      const newHeight = oldHeight / ratio;
+
+      this.minOctave = aboutOctave - (aboutOctave - this.minOctave) * newHeight / oldHeight;
+      this.maxOctave = this.minOctave + newHeight;
+  }
+
+  // Labels the harmonics n/1 and subharmonics 1/n of the fundamental at the left edge,
+  // as far out as they are far enough apart to read.
+  drawLabels(p: p5): void {
+    const f0 = this.leftFundamental();
+    p.colorMode(p.RGB);
+    p.noStroke();
+    p.fill(96, 96, 96);
+    p.textAlign(p.LEFT);
+
+    const label = (text: string, y: number) => {
+      if (0 <= y && y <= p.height) {
+        p.text(text, 4, y - 3);
+      }
+    };
+    label('1/1', this.mapY(f0, p));
+    for (let n = 2; this.mapY(f0 * (n - 1), p) - this.mapY(f0 * n, p) >= LABEL_SPACING && this.mapY(f0 * n, p) >= 0; n++) {
+      label(n + '/1', this.mapY(f0 * n, p));
+    }
+    for (let n = 2; this.mapY(f0 / n, p) - this.mapY(f0 / (n - 1), p) >= LABEL_SPACING && this.mapY(f0 / n, p) <= p.height; n++) {
+      label('1/' + n, this.mapY(f0 / n, p));
+    }
+  }
+}
+
+// A viewport of the given kind showing times [minX, maxX] and frequencies [minFreq, maxFreq].
+export function makeViewport(pitchAxis: PitchAxis, minX: number, maxX: number, minFreq: number, maxFreq: number,
+                             fundamental: (time: number) => number): Viewport {
+  if (pitchAxis === 'linear') {
+    return new LinearViewport(minX, minFreq, maxX, maxFreq);
+  }
+  else if (pitchAxis === 'ratio') {
+    return new RatioViewport(minX, minFreq, maxX, maxFreq, fundamental);
+  }
+  else {
+    return new LogViewport(minX, freqToNote(minFreq), maxX, freqToNote(maxFreq));
+  }
+}
+
+export function viewportFromFile(v: FileType.Viewport, fundamental: (time: number) => number): Viewport {
+  return makeViewport(v.pitchAxis as PitchAxis, v.minX, v.maxX, noteToFreq(v.minNote), noteToFreq(v.maxNote), fundamental);
+}
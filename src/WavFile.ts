@@ -0,0 +1,39 @@
+const BITS_PER_SAMPLE = 16;
+
+function ascii(s: string): number[] {
+    return Array.from(s, c => c.charCodeAt(0));
+}
+
+// A 16 bit PCM .wav file of the buffer's channels, clipping samples outside [-1,1].
+export function writeWavFile(buffer: AudioBuffer): Uint8Array {
+    const channels = buffer.numberOfChannels;
+    const bytesPerFrame = channels * BITS_PER_SAMPLE / 8;
+    const dataSize = buffer.length * bytesPerFrame;
+
+    const bytes = new Uint8Array(44 + dataSize);
+    const view = new DataView(bytes.buffer);
+    bytes.set(ascii('RIFF'), 0);
+    view.setUint32(4, 36 + dataSize, true);
+    bytes.set(ascii('WAVE'), 8);
+    bytes.set(ascii('fmt '), 12);
+    view.setUint32(16, 16, true);
+    view.setUint16(20, 1, true);  // PCM
+    view.setUint16(22, channels, true);
+    view.setUint32(24, buffer.sampleRate, true);
+    view.setUint32(28, buffer.sampleRate * bytesPerFrame, true);
+    view.setUint16(32, bytesPerFrame, true);
+    view.setUint16(34, BITS_PER_SAMPLE, true);
+    bytes.set(ascii('data'), 36);
+    view.setUint32(40, dataSize, true);
+
+    const data = Array.from({ length: channels }, (_, c) => buffer.getChannelData(c));
+    let offset = 44;
+    for (let i = 0; i < buffer.length; i++) {
+        for (const channel of data) {
+            const sample = Math.max(-1, Math.min(1, channel[i]));
+            view.setInt16(offset, Math.round(sample * 0x7FFF), true);
+            offset += 2;
+        }
+    }
+    return bytes;
+}